@@ -1,5 +1,8 @@
 import { describe, it, expect } from 'vitest'
 import { BasicContainer, BasicChildContainer } from './basic-container'
+import { AsyncPluginError, DependencyNotFoundError, PluginDependencyError, PluginNotLoadedError, UnknownPluginTagError } from './errors'
+import type { LazyPluginDescriptor, PluginDescriptor } from './plugins'
+import type { IPrimitiveContainer } from './types'
 
 describe('BasicContainer', () => {
   it('should create a basic container', () => {
@@ -136,6 +139,496 @@ describe('BasicContainer', () => {
 
     expect(container.get('api').fetch()).toBe('mock')
   })
+
+  it('should report missing dependencies requested by providers', () => {
+    const container = new BasicContainer<{ a: string, b: string }>()
+
+    container.bind('a', { provider: (_deps, ctx) => ctx.get('b') })
+
+    expect(() => container.get('a')).toThrow(DependencyNotFoundError)
+  })
+
+  it('should keep decorators when mocks are bound afterwards', () => {
+    interface Services {
+      api: { fetch: () => string }
+    }
+
+    const container = new BasicContainer<Services>()
+
+    const plugin = (ctx: BasicContainer<Services>) => {
+      ctx.bindTo('api', () => ({ fetch: () => 'real' }))
+    }
+
+    plugin.mock = (ctx: BasicContainer<Services>) => {
+      ctx.bindTo('api', () => ({ fetch: () => 'mock' }))
+    }
+
+    container
+      .decorate('api', (api) => ({ fetch: () => `cached ${api.fetch()}` }))
+      .useMocks()
+      .use(plugin)
+
+    expect(container.get('api').fetch()).toBe('cached mock')
+  })
+
+  it('should restore plugin state from a snapshot', () => {
+    interface Services {
+      api: { fetch: () => string }
+    }
+
+    const container = new BasicContainer<Services>()
+
+    const plugin = (ctx: BasicContainer<Services>) => {
+      ctx.bindTo('api', () => ({ fetch: () => 'real' }))
+    }
+
+    plugin.mock = (ctx: BasicContainer<Services>) => {
+      ctx.bindTo('api', () => ({ fetch: () => 'mock' }))
+    }
+
+    const token = container.snapshot()
+
+    container.registerPlugin(plugin, ['api']).useMocks().applyPlugins()
+
+    expect(container.get('api').fetch()).toBe('mock')
+
+    container.restore(token)
+
+    expect(container.has('api')).toBe(false)
+
+    container.applyPlugins()
+
+    expect(container.has('api')).toBe(false)
+
+    container.registerPlugin(plugin).applyPlugins()
+
+    expect(container.get('api').fetch()).toBe('real')
+  })
+})
+
+describe('sub plugin selection', () => {
+  interface Services {
+    api: string
+    analytics: string
+  }
+
+  const apiPlugin = (ctx: IPrimitiveContainer<Services>) => {
+    ctx.bindTo('api', () => 'real api')
+  }
+
+  apiPlugin.mock = (ctx: IPrimitiveContainer<Services>) => {
+    ctx.bindTo('api', () => 'mock api')
+  }
+
+  apiPlugin.storybook = (ctx: IPrimitiveContainer<Services>) => {
+    ctx.bindTo('api', () => 'storybook api')
+  }
+
+  const analytics = (ctx: IPrimitiveContainer<Services>) => {
+    ctx.bindTo('analytics', () => 'real analytics')
+  }
+
+  analytics.mock = (ctx: IPrimitiveContainer<Services>) => {
+    ctx.bindTo('analytics', () => 'mock analytics')
+  }
+
+  it('should only select sub plugins inside withSubPlugin', () => {
+    const container = new BasicContainer<Services>()
+
+    container
+      .withSubPlugin('mock', (c) => c.use(apiPlugin))
+      .use(analytics)
+
+    expect(container.get('api')).toBe('mock api')
+    expect(container.get('analytics')).toBe('real analytics')
+  })
+
+  it('should fall back through the chain of sub plugins', () => {
+    const container = new BasicContainer<Services>()
+
+    container
+      .registerPlugin(apiPlugin)
+      .registerPlugin(analytics)
+      .withSubPlugin(['storybook', 'mock'], (c) => c.applyPlugins())
+
+    expect(container.get('api')).toBe('storybook api')
+    expect(container.get('analytics')).toBe('mock analytics')
+  })
+
+  it('should pick sub plugins per plugin with overrides', () => {
+    const container = new BasicContainer<Services>()
+
+    container
+      .useSubPlugin({ variants: ['storybook', 'mock'], overrides: { analytics: [], apiPlugin: 'mock' } })
+      .use(apiPlugin, analytics)
+
+    expect(container.get('api')).toBe('mock api')
+    expect(container.get('analytics')).toBe('real analytics')
+  })
+
+  it('should go back to the plugins themselves with an empty selection', () => {
+    const container = new BasicContainer<Services>()
+
+    container.useMocks().useSubPlugin([]).use(apiPlugin)
+
+    expect(container.get('api')).toBe('real api')
+  })
+
+  it('should behave the same in child containers', () => {
+    const child = new BasicContainer<Services>().createScope()
+
+    child
+      .withSubPlugin('mock', (c) => c.use(analytics))
+      .use(apiPlugin)
+
+    expect(child.get('analytics')).toBe('mock analytics')
+    expect(child.get('api')).toBe('real api')
+  })
+})
+
+describe('profiles', () => {
+  interface Services {
+    api: string
+    analytics: string
+  }
+
+  type Descriptor = PluginDescriptor<IPrimitiveContainer<Services>, Services>
+
+  const apiPlugin: Descriptor = {
+    name: 'api',
+    setup: (ctx) => { ctx.bindTo('api', () => 'real api') },
+    subPlugins: {
+      storybook: (ctx) => { ctx.bindTo('api', () => 'storybook api') },
+      // variants removed at build time are left undefined
+      mock: undefined
+    }
+  }
+
+  const analyticsPlugin: Descriptor = {
+    name: 'analytics',
+    setup: (ctx) => { ctx.bindTo('analytics', () => 'real analytics') },
+    subPlugins: {
+      mock: (ctx) => { ctx.bindTo('analytics', () => 'mock analytics') }
+    }
+  }
+
+  it('should pick the variant of the first active profile each plugin has', () => {
+    const container = new BasicContainer<Services>({ profiles: ['storybook', 'mock'] })
+
+    container.use(apiPlugin, analyticsPlugin)
+
+    expect(container.get('api')).toBe('storybook api')
+    expect(container.get('analytics')).toBe('mock analytics')
+  })
+
+  it('should report the chosen variant of each identifier', () => {
+    const variants: Record<string, string | undefined> = {}
+    const container = new BasicContainer<Services>({ profiles: ['mock'] })
+
+    container
+      .onActivation((instance, ctx) => {
+        variants[String(ctx.identifier)] = ctx.variant
+
+        return instance
+      })
+      .use(apiPlugin, analyticsPlugin)
+
+    container.get('api')
+    container.get('analytics')
+
+    expect(variants).toEqual({ api: undefined, analytics: 'mock' })
+    expect(container.inspect().nodes.map(({ identifier, plugin, variant }) => ({ identifier, plugin, variant })))
+      .toEqual([
+        { identifier: 'api', plugin: 'api', variant: undefined },
+        { identifier: 'analytics', plugin: 'analytics', variant: 'mock' }
+      ])
+  })
+
+  it('should pass the profiles to child containers', () => {
+    const child = new BasicContainer<Services>({ profiles: ['mock'] }).createScope()
+
+    child.use(analyticsPlugin)
+
+    expect(child.profiles).toEqual(['mock'])
+    expect(child.get('analytics')).toBe('mock analytics')
+  })
+})
+
+describe('plugin descriptors', () => {
+  interface Services {
+    http: { baseUrl: string }
+    usersApi: { list: () => string }
+  }
+
+  type Descriptor = PluginDescriptor<BasicContainer<Services>, Services>
+
+  const httpPlugin: Descriptor = {
+    name: 'http',
+    provides: ['http'],
+    setup: (ctx) => {
+      ctx.bindTo('http', () => ({ baseUrl: '/api' }), 'singleton')
+    }
+  }
+
+  const usersPlugin: Descriptor = {
+    name: 'users',
+    dependsOn: ['http'],
+    provides: ['usersApi'],
+    setup: (ctx) => {
+      ctx.bindTo('usersApi', (c) => ({ list: () => `${c.get('http').baseUrl}/users` }))
+    },
+    subPlugins: {
+      mock: (ctx) => {
+        ctx.bindTo('usersApi', () => ({ list: () => 'mock users' }))
+      }
+    }
+  }
+
+  it('should apply plugins after the ones they depend on', () => {
+    const order: string[] = []
+    const container = new BasicContainer<Services>()
+    const track = (plugin: Descriptor): Descriptor => ({
+      ...plugin,
+      setup: (ctx) => {
+        order.push(plugin.name)
+        plugin.setup(ctx)
+      }
+    })
+
+    container
+      .registerPlugin(track(usersPlugin))
+      .registerPlugin(track(httpPlugin))
+      .applyPlugins()
+
+    expect(order).toEqual(['http', 'users'])
+    expect(container.get('usersApi').list()).toBe('/api/users')
+    expect(container.hasPlugin('users')).toBe(true)
+  })
+
+  it('should not apply a plugin twice', () => {
+    let calls = 0
+    const container = new BasicContainer<Services>()
+    const counted: Descriptor = { ...httpPlugin, setup: (ctx) => { calls++; httpPlugin.setup(ctx) } }
+
+    container
+      .registerPlugin(counted, ['http'])
+      .registerPlugin(usersPlugin)
+      .applyPlugins(['http'])
+    container.applyPlugins()
+    container.use(counted)
+
+    expect(calls).toBe(1)
+  })
+
+  it('should pull registered dependencies when a plugin is used directly', () => {
+    const container = new BasicContainer<Services>()
+
+    container.registerPlugin(httpPlugin).useMocks().use(usersPlugin)
+
+    expect(container.hasPlugin('http')).toBe(true)
+    expect(container.get('usersApi').list()).toBe('mock users')
+  })
+
+  it('should apply every plugin sharing a tag once', async () => {
+    const applied: string[] = []
+    const container = new BasicContainer<Services>()
+    const plugin = (name: string): Descriptor => ({ name, setup: () => { applied.push(name) } })
+
+    container
+      .registerPlugin(plugin('checkout'), ['payments'])
+      .registerPlugin(plugin('invoices'), ['payments', 'invoices'])
+      .registerPlugin(plugin('legacyInvoices'), ['payments', 'invoices', 'legacy'])
+      .applyPlugins(['invoices && !legacy', 'payments && !legacy'])
+
+    expect(applied).toEqual(['checkout', 'invoices'])
+    await expect(container.applyPlugins(['invoice'])).rejects.toThrow(UnknownPluginTagError)
+    expect(applied).toEqual(['checkout', 'invoices'])
+  })
+
+  it('should report missing and circular plugin dependencies', async () => {
+    const container = new BasicContainer<Services>()
+
+    expect(() => container.use(usersPlugin)).toThrow(PluginDependencyError)
+    expect(() => container.use(usersPlugin)).toThrow('Plugin "users" depends on "http" which is not registered')
+    expect(container.hasPlugin('users')).toBe(false)
+
+    const first: Descriptor = { name: 'first', dependsOn: ['second'], setup: () => {} }
+    const second: Descriptor = { name: 'second', dependsOn: ['first'], setup: () => {} }
+
+    await expect(container.registerPlugin(first).registerPlugin(second).applyPlugins())
+      .rejects.toThrow('Circular plugin dependency detected: first -> second -> first')
+  })
+
+  it('should reject instead of throwing when plugins fail', async () => {
+    const container = new BasicContainer<Services>()
+    const failing: Descriptor = { name: 'failing', setup: () => { throw new Error('setup failed') } }
+
+    container.registerPlugin(failing, ['failing'])
+
+    const applied = container.applyPlugins(['failing'])
+
+    await expect(applied).rejects.toThrow('setup failed')
+    await expect(container.applyPlugins(['paymnts'])).rejects.toThrow(UnknownPluginTagError)
+  })
+})
+
+describe('lazy plugins', () => {
+  interface Services {
+    http: { baseUrl: string }
+    reportsApi: { list: () => string }
+  }
+
+  type Descriptor = PluginDescriptor<BasicContainer<Services>, Services>
+
+  const httpPlugin: Descriptor = {
+    name: 'http',
+    setup: (ctx) => {
+      ctx.bindTo('http', () => ({ baseUrl: '/api' }), 'singleton')
+    }
+  }
+
+  const reportsPlugin: Descriptor = {
+    name: 'reports',
+    setup: (ctx) => {
+      ctx.bindTo('reportsApi', (c) => ({ list: () => `${c.get('http').baseUrl}/reports` }))
+    },
+    subPlugins: {
+      mock: (ctx) => {
+        ctx.bindTo('reportsApi', () => ({ list: () => 'mock reports' }))
+      }
+    }
+  }
+
+  const createLazy = (load = () => Promise.resolve({ default: reportsPlugin })) => {
+    const lazy: LazyPluginDescriptor<BasicContainer<Services>, Services> & { loads: number } = {
+      name: 'reports',
+      dependsOn: ['http'],
+      provides: ['reportsApi'],
+      loads: 0,
+      load: () => {
+        lazy.loads++
+        return load()
+      }
+    }
+
+    return lazy
+  }
+
+  it('should load lazy plugins when applying plugins', async () => {
+    const container = new BasicContainer<Services>()
+    const lazy = createLazy()
+
+    const applied = container.registerPlugin(lazy).registerPlugin(httpPlugin).applyPlugins()
+
+    expect(container.hasPlugin('http')).toBe(true)
+    expect(container.hasPlugin('reports')).toBe(false)
+    expect(await applied).toBe(container)
+    expect(container.get('reportsApi').list()).toBe('/api/reports')
+    expect(lazy.loads).toBe(1)
+  })
+
+  it('should load the plugin providing an identifier on getAsync', async () => {
+    const container = new BasicContainer<Services>()
+    const lazy = createLazy()
+
+    container.registerPlugin(httpPlugin).registerPlugin(lazy)
+
+    expect(() => container.get('reportsApi')).toThrow(PluginNotLoadedError)
+    expect(() => container.get('reportsApi')).toThrow('provided by the lazy plugin "reports"')
+
+    const [first, second] = await Promise.all([
+      container.getAsync('reportsApi'),
+      container.getAsync('reportsApi')
+    ])
+
+    expect(first.list()).toBe('/api/reports')
+    expect(second.list()).toBe('/api/reports')
+    expect(lazy.loads).toBe(1)
+    expect(container.hasPlugin('reports')).toBe(true)
+  })
+
+  it('should use the sub plugins selected when loading started', async () => {
+    const container = new BasicContainer<Services>({ profiles: ['mock'] })
+
+    container.registerPlugin(httpPlugin).registerPlugin(createLazy())
+
+    const applied = container.applyPlugins()
+    container.useSubPlugin([])
+    await applied
+
+    expect(container.get('reportsApi').list()).toBe('mock reports')
+  })
+
+  it('should load lazy plugins of the parent from a scope', async () => {
+    const container = new BasicContainer<Services>()
+
+    container.registerPlugin(httpPlugin).registerPlugin(createLazy())
+
+    const scope = container.createScope()
+
+    expect((await scope.getAsync('reportsApi')).list()).toBe('/api/reports')
+    expect(container.hasPlugin('reports')).toBe(true)
+  })
+
+  it('should retry a failed load', async () => {
+    const container = new BasicContainer<Services>()
+    let fail = true
+    const lazy = createLazy(() => fail 
+      ? Promise.reject(new Error('chunk failed')) 
+      : Promise.resolve({ default: reportsPlugin })
+    )
+
+    container.registerPlugin(httpPlugin).registerPlugin(lazy)
+
+    await expect(container.applyPlugins()).rejects.toThrow('chunk failed')
+
+    fail = false
+
+    expect((await container.getAsync('reportsApi')).list()).toBe('/api/reports')
+    expect(lazy.loads).toBe(2)
+  })
+
+  it('should load lazy plugins for getAsync calls of providers', async () => {
+    type Reg = { reportsApi: string, dashboard: Promise<string> }
+
+    const container = new BasicContainer<Reg>()
+
+    container
+      .registerPlugin({
+        name: 'reports',
+        provides: ['reportsApi'],
+        load: async () => (ctx: BasicContainer<Reg>) => {
+          ctx.bindTo('reportsApi', () => 'reports')
+        }
+      })
+      .bindTo('dashboard', async (ctx) => {
+        await Promise.resolve()
+
+        return `dashboard of ${await ctx.getAsync('reportsApi')}`
+      })
+
+    await expect(container.getAsync('dashboard')).resolves.toBe('dashboard of reports')
+  })
+
+  it('should not apply a lazy dependency synchronously', () => {
+    const container = new BasicContainer<Services>()
+    const dependent: Descriptor = { name: 'dashboard', dependsOn: ['reports'], setup: () => {} }
+
+    container.registerPlugin(httpPlugin).registerPlugin(createLazy())
+
+    expect(() => container.use(dependent)).toThrow(PluginDependencyError)
+    expect(container.hasPlugin('dashboard')).toBe(false)
+  })
+
+  it('should reject for plain plugins returning a promise', async () => {
+    const container = new BasicContainer<Services>()
+    const loadReports = () => Promise.reject(new Error('chunk failed'))
+
+    container.registerPlugin(loadReports, ['reports'])
+
+    await expect(container.applyPlugins(['reports'])).rejects.toThrow(AsyncPluginError)
+    await expect(container.applyPlugins(['reports'])).rejects.toThrow('Plugin "loadReports" returned a promise')
+  })
 })
 
 describe('BasicChildContainer', () => {
@@ -235,6 +728,31 @@ describe('BasicChildContainer', () => {
     expect(() => container.get('extraService')).toThrow()
   })
 
+  it('should create scopes that can register their own plugins', () => {
+    interface Services {
+      config: { env: string }
+      auth: { user: string }
+    }
+
+    const container = new BasicContainer<Services>()
+
+    container.use((ctx) => {
+      ctx.bind('config', { provider: () => ({ env: 'prod' }) })
+      ctx.bind('auth', { scope: 'scoped', provider: () => ({ user: 'anonymous' }) })
+    })
+
+    const scope = container.createScope()
+
+    scope.use((ctx) => {
+      ctx.bind('auth', { scope: 'scoped', provider: () => ({ user: 'jane' }) })
+    })
+
+    expect(scope).toBeInstanceOf(BasicChildContainer)
+    expect(scope.get('auth').user).toBe('jane')
+    expect(scope.get('config')).toBe(container.get('config'))
+    expect(container.get('auth').user).toBe('anonymous')
+  })
+
   it('should work with simple function plugins', () => {
     interface Services {
       simpleService: string
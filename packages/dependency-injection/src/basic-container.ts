@@ -1,201 +1,290 @@
 import { ChildPreProcessDependencyContainerWithUse, PreProcessDependencyContainerWithUse } from "./pre-process-dependency-container";
-import { PlainObject } from "./types";
+import { PluginNotLoadedError } from "./errors";
+import { LazyPluginDescriptor, Plugin, PluginRegistry, SubPluginSelection } from "./plugins";
+import { PrimitiveContainer } from "./primitive-container";
+import { ContainerSnapshot, Identifier, IPrimitiveContainer, PlainObject, RegisterOf, ServiceIdentifier } from "./types";
 
-//TODO: apply  cleaup execution model
-//TODO: apply subplugin option in lazy plugins
 // TODO: rapply plugins or subplugins
-// TODO: change model to make plugins distingishable by a token to request them
 // TODO: create a interface
 
-/**
- * A plugin function that can optionally have sub-plugins attached as properties
- */
-export type PluginWithSubPlugins<Context> = ((ctx: Context) => void) & { 
-  [key: string]: ((ctx: Context) => void) | undefined 
-}
-
-/**
- * A plugin can be either a simple function or a function with sub-plugins
- */
-export type Plugin<Context> = ((ctx: Context) => void) | PluginWithSubPlugins<Context>
-
 /**
  * Plugin type specifically for BasicContainer
  */
-export type BasicContainerPlugin<T extends PlainObject> = Plugin<BasicContainer<T>>
+export type BasicContainerPlugin<T extends PlainObject> = Plugin<BasicContainer<T>, T>
 
 /**
  * Plugin type specifically for BasicChildContainer
  */
-export type BasicChildContainerPlugin<T extends PlainObject, R extends PlainObject> = Plugin<BasicChildContainer<T, R>>
+export type BasicChildContainerPlugin<T extends PlainObject, R extends PlainObject> = Plugin<BasicChildContainer<T, R>, T>
 
-export class BasicContainer<T extends PlainObject> extends PreProcessDependencyContainerWithUse<T> {
-  private currentSubpluginName: string | undefined;
-  private lazyPlugins = new Set<BasicContainerPlugin<T>>();
-  private pluginsByTag = new Map<string, BasicContainerPlugin<T>>()
+export interface BasicContainerOptions {
   /**
-     * 
-     * If the plugin passed has a mock, now that is used
-     * it is not retoractive, it only affects to registration of plugins
-     * below the invocation of this method
-     * 
-     * If the callback doest have a mock callback, the original 
-     * callback is used
-     * 
-     * @example
-     * 
-     * const plugin = (ctx)=>{
-     *    throw new Error("not implemented")
-     * }
-     * 
-     * plugin.mock = (ctx)=>{
-     *    ctx.bind("someToken", {
-     *      provider(){
-     *        return {
-     *          // some mock implementation
-     *        }
-     *      }
-     *    })
-     * }
-     * 
-     * const container = new Container();
-     * 
-     * // will work
-     * container
-     *  .useMocks()
-     *  .use(plugin)
-     * 
-     * // will throw an error
-     * container
-     *   .use(plugin)
-     *   .useMocks()
-     */
-  useMocks() {
-    this.currentSubpluginName = "mock";
-
+   * Active profiles, like `['storybook', 'mock']`, plugins use the first
+   * sub plugin named after one of them, child containers inherit them
+   */
+  profiles?: string[];
+}
 
-    return this;
-  }
+// child registries load the lazy plugins of their parents too
+const registries = new WeakMap<PrimitiveContainer<any>, PluginRegistry<unknown>>()
 
+const getProfiles = (container?: PrimitiveContainer<any>) => 
+  container instanceof BasicContainer || container instanceof BasicChildContainer
+    ? [...container.profiles]
+    : []
 
-  override use(...args: BasicContainerPlugin<T>[]) {
-    const pluginName = this.currentSubpluginName;
-  
-    super.use(...(pluginName ? (args.map((cb) => (cb as any)[pluginName] ?? cb)) : args));
+type Constructor<T> = new (...args: any[]) => T;
 
+/**
+ * Plugin management added by `createWithPlugins`
+ */
+interface WithPlugins extends IPrimitiveContainer<any> {
+  /**
+   * 
+   * If the plugin passed has a mock, now that is used
+   * it is not retoractive, it only affects to registration of plugins
+   * below the invocation of this method
+   * 
+   * If the callback doest have a mock callback, the original 
+   * callback is used
+   * 
+   * @example
+   * 
+   * const plugin = (ctx)=>{
+   *    throw new Error("not implemented")
+   * }
+   * 
+   * plugin.mock = (ctx)=>{
+   *    ctx.bind("someToken", {
+   *      provider(){
+   *        return {
+   *          // some mock implementation
+   *        }
+   *      }
+   *    })
+   * }
+   * 
+   * const container = new Container();
+   * 
+   * // will work
+   * container
+   *  .useMocks()
+   *  .use(plugin)
+   * 
+   * // will throw an error
+   * container
+   *   .use(plugin)
+   *   .useMocks()
+   */
+  useMocks(): this
 
-    return this;
-  }
+  /**
+   * Selects the sub plugins used by the plugins applied from now on,
+   * a name, a fallback chain like `['storybook', 'mock']` or a chain
+   * with per plugin `overrides`. An empty chain goes back
+   * to the plugins themselves
+   */
+  useSubPlugin(selection: SubPluginSelection): this
 
-  useSubPlugin(name: string){
-    this.currentSubpluginName = name;
-    return this;
-  }
+  /**
+   * Selects the sub plugins only for the plugins applied inside `fn`
+   * 
+   * @example
+   * 
+   * container
+   *   .withSubPlugin('mock', (c) => c.use(apiPlugin))
+   *   .use(loggerPlugin) // not mocked
+   */
+  withSubPlugin(selection: SubPluginSelection, fn: (container: this) => void): this
 
-  registerPlugin(plugin: BasicContainerPlugin<T>, tags?: string[]){
-    this.lazyPlugins.add(plugin);
+  /**
+   * Applies the plugins, descriptors after the plugins they depend on,
+   * registered ones included, and only if not applied yet. Depending
+   * on a lazy plugin not loaded yet throws
+   */
+  use(...args: Plugin<this, RegisterOf<this>>[]): this
 
-    tags?.forEach((tag)=>{
-      this.pluginsByTag.set(tag, plugin)
-    }, this)
+  /**
+   * Registers a plugin to be applied by `applyPlugins`, a lazy one
+   * is also loaded by `getAsync` of an identifier it provides
+   */
+  registerPlugin(
+    plugin: Plugin<this, RegisterOf<this>> | LazyPluginDescriptor<this, RegisterOf<this>>, 
+    tags?: string[]
+  ): this
 
-    return this;
-  }
+  /**
+   * Applies the registered plugins not applied yet, with `tags` only the 
+   * ones matching any of the tag expressions, like `'payments'`
+   * or `'feature-x && !legacy'`
+   * 
+   * Plugins are applied right away until the first lazy one, the
+   * returned promise resolves once the lazy ones are loaded and applied,
+   * any failure, unknown tags and plugin dependencies included, rejects it
+   */
+  applyPlugins(tags?: string[]): Promise<this>
 
-  applyPlugins(tags?: string[]){
-    const plugins =  tags
-      ?.map((tag)=>this.pluginsByTag.get(tag)!, this) ?? this.lazyPlugins.values();
-    
-    this.use(...plugins)
+  /**
+   * Loads and applies the lazy plugins that provide the identifier,
+   * the ones registered in the parents too
+   */
+  preload(identifier: ServiceIdentifier<RegisterOf<this>>): Promise<void>
 
-    return this;
-  }
+  /**
+   * Tells whether a plugin descriptor with that name was applied
+   */
+  hasPlugin(name: string): boolean
 }
 
-export class BasicChildContainer<
-  T extends PlainObject,
-  R extends PlainObject
-> extends ChildPreProcessDependencyContainerWithUse<T, R> {
-  private currentSubpluginName: string | undefined;
-  private lazyPlugins = new Set<BasicChildContainerPlugin<T, R>>();
-  private pluginsByTag = new Map<string, BasicChildContainerPlugin<T, R>>()
-  /**
-     * 
-     * If the plugin passed has a mock, now that is used
-     * it is not retoractive, it only affects to registration of plugins
-     * below the invocation of this method
-     * 
-     * If the callback doest have a mock callback, the original 
-     * callback is used
-     * 
-     * @example
-     * 
-     * const plugin = (ctx)=>{
-     *    throw new Error("not implemented")
-     * }
-     * 
-     * plugin.mock = (ctx)=>{
-     *    ctx.bind("someToken", {
-     *      provider(){
-     *        return {
-     *          // some mock implementation
-     *        }
-     *      }
-     *    })
-     * }
-     * 
-     * const container = new Container();
-     * 
-     * // will work
-     * container
-     *  .useMocks()
-     *  .use(plugin)
-     * 
-     * // will throw an error
-     * container
-     *   .use(plugin)
-     *   .useMocks()
+/**
+ * Adds registered, lazy and sub plugins to a container class, 
+ * the class sets up the registry of each instance with `registries`
+ */
+function createWithPlugins<TBase extends Constructor<PrimitiveContainer<PlainObject>>>(
+  Clazz: TBase
+): TBase & Constructor<WithPlugins> {
+  return class extends Clazz {
+    // providers get resolution views of the container, the registry is kept by the container itself
+    private get plugins(): PluginRegistry<this, RegisterOf<this>> {
+      return registries.get(this.origin) as PluginRegistry<this, RegisterOf<this>>
+    }
+
+    useMocks() {
+      return this.useSubPlugin("mock");
+    }
+
+    useSubPlugin(selection: SubPluginSelection){
+      this.plugins.select(selection);
+      return this;
+    }
+
+    withSubPlugin(selection: SubPluginSelection, fn: (container: this) => void){
+      this.plugins.withSelection(selection, () => fn(this));
+      return this;
+    }
+
+    use(...args: Plugin<this, RegisterOf<this>>[]) {
+      this.plugins.apply(args);
+
+      return this;
+    }
+
+    registerPlugin(
+      plugin: Plugin<this, RegisterOf<this>> | LazyPluginDescriptor<this, RegisterOf<this>>, 
+      tags?: string[]
+    ){
+      this.plugins.register(plugin, tags);
+
+      return this;
+    }
+
+    applyPlugins(tags?: string[]): Promise<this> {
+      // failing plugins reject the promise instead of throwing
+      return new Promise<unknown>((resolve) => resolve(this.plugins.apply(this.plugins.pending(tags), true)))
+        .then(() => this);
+    }
+
+    preload(identifier: ServiceIdentifier<RegisterOf<this>>): Promise<void> {
+      return this.plugins.preload(identifier);
+    }
+
+    hasPlugin(name: string){
+      return this.plugins.has(name);
+    }
+
+    /**
+     * Besides the bindings, captures the registered plugins 
+     * and the selected sub plugins
      */
-  useMocks() {
-    this.currentSubpluginName = "mock";
+    override snapshot(): ContainerSnapshot {
+      const token = super.snapshot()
 
+      this.plugins.save(token)
 
-    return this;
-  }
+      return token
+    }
 
+    override restore(token: ContainerSnapshot): this {
+      super.restore(token)
+      this.plugins.restore(token)
 
-  override use(...args: BasicChildContainerPlugin<T, R>[]) {
-    const subPluginName = this.currentSubpluginName;
+      return this;
+    }
 
-    super.use(...(subPluginName ? (args.map((cb) => (cb as any)[subPluginName] ?? cb)) : args));
+    /**
+     * `getAsync` of an identifier not bound yet loads 
+     * the lazy plugin providing it first
+     */
+    protected override loadProvider(identifier: Identifier) {
+      return this.plugins.preload(identifier);
+    }
+
+    protected override createNotFoundError(identifier: Identifier) {
+      const error = super.createNotFoundError(identifier)
+      const plugin = this.plugins.findLazyProvider(identifier)
+
+      return plugin
+        ? new PluginNotLoadedError(identifier, plugin, error.containerPath, error.resolutionPath)
+        : error
+    }
+  }
+}
 
+export class BasicContainer<T extends PlainObject> extends createWithPlugins(PreProcessDependencyContainerWithUse)<T> {
+  readonly profiles: readonly string[]
 
-    return this;
+  /**
+   * @example
+   * 
+   * // mock variants in tests, the plugins themselves otherwise
+   * const container = new BasicContainer<Services>({
+   *   profiles: import.meta.env.MODE === 'test' ? ['mock'] : []
+   * })
+   */
+  constructor({ profiles = [] }: BasicContainerOptions = {}){
+    super()
+
+    this.profiles = profiles
+    registries.set(this, new PluginRegistry(
+      (setup, name, variant) => this.applyPlugin(setup, name, variant),
+      profiles
+    ))
   }
 
-  useSubPlugin(name: string){
-    this.currentSubpluginName = name;
-    return this;
+  /**
+   * Creates a child container for a unit of work (a request, a render tree),
+   * it can register its own plugins while `scoped` bindings of this
+   * container get one instance per created scope
+   */
+  override createScope(): BasicChildContainer<T, T>{
+    return new BasicChildContainer(this)
   }
+}
 
-  registerPlugin(plugin: BasicChildContainerPlugin<T, R>, tags?: string[]){
-    this.lazyPlugins.add(plugin);
-
-    tags?.forEach((tag)=>{
-      this.pluginsByTag.set(tag, plugin)
-    }, this)
-
-    return this;
+/**
+ * Child container with the same plugin management as `BasicContainer`
+ */
+export class BasicChildContainer<
+  T extends PlainObject,
+  R extends PlainObject
+> extends createWithPlugins(ChildPreProcessDependencyContainerWithUse)<T, R> {
+  readonly profiles: readonly string[]
+
+  constructor(
+    parent?: PrimitiveContainer<R>,
+    { profiles = getProfiles(parent) }: BasicContainerOptions = {}
+  ){
+    super(parent)
+
+    this.profiles = profiles
+    registries.set(this, new PluginRegistry(
+      (setup, name, variant) => this.applyPlugin(setup, name, variant),
+      profiles,
+      parent && registries.get(parent)
+    ))
   }
 
-  applyPlugins(tags?: string[]){
-    const plugins =  tags
-      ?.map((tag)=>this.pluginsByTag.get(tag)!, this) ?? this.lazyPlugins.values();
-    
-    this.use(...plugins)
-
-    return this;
+  override createScope(): BasicChildContainer<T & R, T & R>{
+    return new BasicChildContainer(this)
   }
 }
-
-
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi } from 'vitest';
 import { createWithUse } from '../src/create-mixin-with-use';
 import { PrimitiveContainer, PrimitiveContainerWithUse } from '../src/primitive-container';
+import { PreProcessDependencyContainer } from '../src/pre-process-dependency-container';
 import { IPrimitiveContainer } from '../src/types';
 
 describe('createWithUse mixin creator', () => {
@@ -168,4 +169,58 @@ describe('PrimitiveContainerWithUse', () => {
     counter1.increment();
     expect(counter2.value).toBe(1); // Shared state
   });
-});
\ No newline at end of file
+});
+describe('typed plugin chains', () => {
+  interface Logger { log: (msg: string) => string }
+
+  const loggerPlugin = (c: IPrimitiveContainer<{ logger: Logger }>) => {
+    c.bindTo('logger', () => ({ log: (msg) => msg }));
+  };
+
+  const greeterPlugin = (c: IPrimitiveContainer<{ logger: Logger; greeting: string }>) => {
+    c.bindTo('greeting', (ctx) => ctx.get('logger').log('hello'));
+  };
+
+  it('adds the services of each plugin to the container type', () => {
+    const container = new PrimitiveContainerWithUse<{ prefix: string }>()
+      .use((c) => { c.bindTo('prefix', () => '>') })
+      .use(loggerPlugin)
+      .use(greeterPlugin);
+
+    const greeting: string = container.get('greeting');
+    const prefix: string = container.get('prefix');
+
+    expect(`${prefix} ${greeting}`).toBe('> hello');
+    // @ts-expect-error never bound by a plugin
+    expect(() => container.get('missing')).toThrow();
+  });
+
+  it('adds the services of every plugin given to a single call', () => {
+    const container = new PrimitiveContainerWithUse().use(loggerPlugin, greeterPlugin);
+
+    expect(container.get('logger').log(container.get('greeting'))).toBe('hello');
+  });
+
+  it('keeps the concrete container class', () => {
+    class AppContainer extends PrimitiveContainerWithUse<{ prefix: string }> {
+      describe() {
+        return this.inspect().nodes.map((node) => node.identifier);
+      }
+    }
+
+    const container = new AppContainer().use(loggerPlugin);
+
+    expect(container).toBeInstanceOf(AppContainer);
+    expect(container.describe()).toEqual(['logger']);
+  });
+
+  it('types plugin chains of other containers', () => {
+    const Enhanced = createWithUse(PreProcessDependencyContainer);
+
+    const container = new Enhanced<{ greeting: string }>()
+      .use(loggerPlugin)
+      .bind('greeting', { provider: () => 'hi' });
+
+    expect(container.get('logger').log(container.get('greeting'))).toBe('hi');
+  });
+});
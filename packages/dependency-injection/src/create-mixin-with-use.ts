@@ -1,9 +1,13 @@
 
-import { ContainerWithPlugins, IPrimitiveContainer, PlainObject } from "./types";
+import { ContainerWithPlugins, IPrimitiveContainer, PluginsRegister, RegisterOf } from "./types";
 
 type Constructor<T = {}> = new (...args: any[]) => T;
 
-export function createWithUse<TBase extends Constructor<IPrimitiveContainer<any>>>(
+/**
+ * Adds `use` to a container class, each call returns the container
+ * typed with the services of the plugins it applied
+ */
+export function createWithUse<TBase extends Constructor<IPrimitiveContainer<Record<never, never>>>>(
   Clazz: TBase
 ) {
   return class extends Clazz {
@@ -11,13 +15,12 @@ export function createWithUse<TBase extends Constructor<IPrimitiveContainer<any>
       super(...args);
     }
     
-    use<Register extends PlainObject>(
-      this: IPrimitiveContainer<Register>,
-      ...handlers: Array<(container: IPrimitiveContainer<Register>) => void>
-    ): ContainerWithPlugins<Register, IPrimitiveContainer<Register>> {
-      handlers.forEach((handler) => handler(this));
+    use<const Plugins extends ((container: this) => unknown)[]>(
+      ...handlers: Plugins
+    ): ContainerWithPlugins<RegisterOf<this> & PluginsRegister<Plugins>, this> {
+      handlers.forEach((handler) => { handler(this) });
       
-      return this as ContainerWithPlugins<Register, IPrimitiveContainer<Register>>;
+      return this as ContainerWithPlugins<RegisterOf<this> & PluginsRegister<Plugins>, this>;
     }
   };
-}
\ No newline at end of file
+}
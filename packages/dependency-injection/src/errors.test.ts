@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CircularDependencyError,
+  ContainerError,
+  DependencyNotFoundError,
+  findSuggestions,
+  ProviderFailedError,
+} from './errors';
+
+describe('findSuggestions', () => {
+  it('returns the closest identifiers first', () => {
+    expect(
+      findSuggestions('loger', ['config', 'logger', 'loggers', 'http']),
+    ).toEqual(['logger', 'loggers']);
+  });
+
+  it('compares case insensitively', () => {
+    expect(findSuggestions('UserService', ['userService'])).toEqual([
+      'userService',
+    ]);
+  });
+
+  it('returns nothing when identifiers are too different', () => {
+    expect(findSuggestions('db', ['config', 'logger'])).toEqual([]);
+  });
+});
+
+describe('error classes', () => {
+  it('share the ContainerError base class', () => {
+    expect(new DependencyNotFoundError('a')).toBeInstanceOf(ContainerError);
+    expect(new ProviderFailedError('a')).toBeInstanceOf(ContainerError);
+    expect(new CircularDependencyError(['a', 'a'])).toBeInstanceOf(
+      ContainerError,
+    );
+  });
+
+  it('include suggestions in the not found message', () => {
+    const error = new DependencyNotFoundError('loger', [], [], ['logger']);
+
+    expect(error.message).toBe(
+      'Could not resolve loger, did you register it? Did you mean "logger"?',
+    );
+    expect(error.name).toBe('DependencyNotFoundError');
+  });
+
+  it('keep the original error as cause', () => {
+    const cause = new Error('boom');
+    const error = new ProviderFailedError('a', [], [], cause);
+
+    expect(error.cause).toBe(cause);
+    expect(error.message).toBe('Provider for a failed: boom');
+  });
+});
@@ -0,0 +1,234 @@
+import type { Identifier, IPrimitiveContainer, PlainObject } from './types';
+
+/**
+ * Base class of every error thrown while resolving an identifier,
+ * error reporting code can branch on the subclasses
+ * instead of matching messages
+ */
+export class ContainerError extends Error {
+  override name = 'ContainerError';
+
+  constructor(
+    message: string,
+    /**
+     * Identifier being resolved when the error happened
+     */
+    readonly identifier: Identifier,
+    /**
+     * Container where the error happened followed by its parents
+     */
+    readonly containerPath: readonly IPrimitiveContainer<PlainObject>[] = [],
+    /**
+     * Identifiers whose providers were running, outermost first
+     */
+    readonly resolutionPath: readonly Identifier[] = [],
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+  }
+}
+
+/**
+ * Thrown when neither the container nor its parents have
+ * a binding for the identifier
+ */
+export class DependencyNotFoundError extends ContainerError {
+  override name = 'DependencyNotFoundError';
+
+  constructor(
+    identifier: Identifier,
+    containerPath: readonly IPrimitiveContainer<PlainObject>[] = [],
+    resolutionPath: readonly Identifier[] = [],
+    /**
+     * Registered identifiers with a similar name
+     */
+    readonly suggestions: readonly Identifier[] = [],
+  ) {
+    const hint = suggestions.length
+      ? ` Did you mean ${suggestions.map((suggestion) => `"${String(suggestion)}"`).join(', ')}?`
+      : '';
+
+    super(
+      `Could not resolve ${String(identifier)}, did you register it?${hint}`,
+      identifier,
+      containerPath,
+      resolutionPath,
+    );
+  }
+}
+
+/**
+ * Wraps anything thrown (or rejected) by a provider,
+ * the original error is kept as `cause`
+ */
+export class ProviderFailedError extends ContainerError {
+  override name = 'ProviderFailedError';
+
+  constructor(
+    identifier: Identifier,
+    containerPath: readonly IPrimitiveContainer<PlainObject>[] = [],
+    resolutionPath: readonly Identifier[] = [],
+    cause?: unknown,
+  ) {
+    super(
+      `Provider for ${String(identifier)} failed: ${cause instanceof Error ? cause.message : String(cause)}`,
+      identifier,
+      containerPath,
+      resolutionPath,
+      { cause },
+    );
+  }
+}
+
+/**
+ * Thrown when a provider ends up requesting, directly or through
+ * other providers, the identifier it is currently resolving
+ *
+ * @example
+ *
+ * container.bindTo('a', (ctx) => ctx.get('b'))
+ * container.bindTo('b', (ctx) => ctx.get('a'))
+ *
+ * // CircularDependencyError: Circular dependency detected: a -> b -> a
+ * container.get('a')
+ */
+export class CircularDependencyError extends ContainerError {
+  override name = 'CircularDependencyError';
+
+  constructor(
+    readonly path: Identifier[],
+    containerPath: readonly IPrimitiveContainer<PlainObject>[] = [],
+  ) {
+    super(
+      `Circular dependency detected: ${path.map(String).join(' -> ')}`,
+      path[path.length - 1],
+      containerPath,
+      path.slice(0, -1),
+    );
+  }
+}
+
+/**
+ * Thrown by `get` when the identifier is provided by a lazy plugin
+ * not loaded yet, `getAsync` loads it first
+ */
+export class PluginNotLoadedError extends ContainerError {
+  override name = 'PluginNotLoadedError';
+
+  constructor(
+    identifier: Identifier,
+    /**
+     * Lazy plugin providing the identifier
+     */
+    readonly plugin: string,
+    containerPath: readonly IPrimitiveContainer<PlainObject>[] = [],
+    resolutionPath: readonly Identifier[] = [],
+  ) {
+    super(
+      `${String(identifier)} is provided by the lazy plugin "${plugin}" which is not loaded yet, use getAsync or applyPlugins to load it`,
+      identifier,
+      containerPath,
+      resolutionPath,
+    );
+  }
+}
+
+/**
+ * Thrown when plugins can not be ordered by their `dependsOn`,
+ * either a dependency is not registered or plugins depend on each other
+ */
+export class PluginDependencyError extends Error {
+  override name = 'PluginDependencyError';
+
+  constructor(
+    message: string,
+    /**
+     * Plugin being ordered when the error happened
+     */
+    readonly plugin: string,
+    /**
+     * Missing dependencies, or the cycle for circular ones
+     */
+    readonly dependencies: readonly string[],
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Thrown when a plugin returns a promise, plugins bind synchronously
+ * and code loaded on demand is registered as a lazy plugin with `load`
+ */
+export class AsyncPluginError extends Error {
+  override name = 'AsyncPluginError';
+
+  constructor(readonly plugin: string) {
+    super(
+      `Plugin "${plugin}" returned a promise, plugins must bind synchronously. Register code loaded on demand as a lazy plugin: { name, provides, load: () => import('...') }`,
+    );
+  }
+}
+
+/**
+ * Rejects `applyPlugins` when it gets a tag no registered plugin has
+ */
+export class UnknownPluginTagError extends Error {
+  override name = 'UnknownPluginTagError';
+
+  constructor(
+    readonly tag: string,
+    /**
+     * Registered tags with a similar name
+     */
+    readonly suggestions: readonly string[] = [],
+  ) {
+    const hint = suggestions.length
+      ? ` Did you mean ${suggestions.map((suggestion) => `"${suggestion}"`).join(', ')}?`
+      : '';
+
+    super(`No plugin is registered with the tag "${tag}".${hint}`);
+  }
+}
+
+const distanceBetween = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+/**
+ * Picks the candidates closest to the identifier, comparing
+ * them case insensitively by edit distance
+ */
+export const findSuggestions = (
+  identifier: Identifier,
+  candidates: Iterable<Identifier>,
+  limit = 3,
+) => {
+  const target = String(identifier).toLowerCase();
+  const maxDistance = Math.max(2, Math.floor(target.length / 3));
+
+  return [...new Set(candidates)]
+    .map((candidate) => ({
+      candidate,
+      distance: distanceBetween(target, String(candidate).toLowerCase()),
+    }))
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { toDot, toMermaid } from './graph';
+import type { ContainerGraph } from './types';
+
+const graph: ContainerGraph = {
+  nodes: [
+    {
+      identifier: 'config',
+      scope: 'singleton',
+      container: 1,
+      multi: false,
+      contributions: 1,
+      resolved: true,
+    },
+    {
+      identifier: 'client',
+      scope: 'transient',
+      container: 0,
+      plugin: 'httpPlugin',
+      variant: 'mock',
+      multi: false,
+      contributions: 1,
+      resolved: true,
+    },
+    {
+      identifier: 'unused',
+      scope: 'singleton',
+      container: 0,
+      multi: false,
+      contributions: 1,
+      resolved: false,
+    },
+  ],
+  edges: [
+    { from: 'client', to: 'config' },
+    { from: 'client', to: 'logger' },
+  ],
+};
+
+describe('toDot', () => {
+  it('renders nodes, edges and missing identifiers', () => {
+    expect(toDot(graph)).toBe(
+      [
+        'digraph "container" {',
+        '  n0 [label="config\\n(singleton, parent 1)"];',
+        '  n1 [label="client\\n(transient, plugin httpPlugin (mock))"];',
+        '  n2 [label="unused\\n(singleton)", style=dashed];',
+        '  m0 [label="logger\\n(missing)", color=red];',
+        '  n1 -> n0;',
+        '  n1 -> m0;',
+        '}',
+      ].join('\n'),
+    );
+  });
+});
+
+describe('toMermaid', () => {
+  it('renders a flowchart with classes for unresolved and missing nodes', () => {
+    expect(toMermaid(graph, 'LR')).toBe(
+      [
+        'graph LR',
+        '  n0["config<br/>(singleton, parent 1)"]',
+        '  n1["client<br/>(transient, plugin httpPlugin (mock))"]',
+        '  n2["unused<br/>(singleton)"]',
+        '  m0["logger<br/>(missing)"]',
+        '  n1 --> n0',
+        '  n1 --> m0',
+        '  class n2 unresolved',
+        '  class m0 missing',
+        '  classDef unresolved stroke-dasharray: 5 5',
+        '  classDef missing stroke:#f00',
+      ].join('\n'),
+    );
+  });
+});
@@ -0,0 +1,106 @@
+import type { ContainerGraph, ContainerGraphNode } from './types';
+
+const describeNode = (node: ContainerGraphNode) =>
+  [
+    node.multi
+      ? `${node.scope}, ${node.contributions} contributions`
+      : node.scope,
+    node.container ? `parent ${node.container}` : undefined,
+    node.plugin &&
+      `plugin ${node.plugin}${node.variant ? ` (${node.variant})` : ''}`,
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+/**
+ * Gives every node an id and lists the edges between ids,
+ * identifiers requested but never bound get a `missing` node
+ */
+const layout = (graph: ContainerGraph) => {
+  const ids = new Map<string, string[]>();
+  const nodes = graph.nodes.map((node, index) => {
+    const id = `n${index}`;
+
+    ids.set(node.identifier, [...(ids.get(node.identifier) ?? []), id]);
+
+    return { id, label: `${node.identifier}\n(${describeNode(node)})`, node };
+  });
+
+  const missing = graph.edges
+    .filter(({ to }) => !ids.has(to))
+    .map(({ to }, index) => {
+      const id = `m${index}`;
+
+      ids.set(to, [id]);
+
+      return { id, label: `${to}\n(missing)` };
+    });
+
+  const edges = graph.edges.flatMap(({ from, to }) =>
+    (ids.get(from) ?? []).flatMap((fromId) =>
+      (ids.get(to) ?? []).map((toId) => [fromId, toId] as const),
+    ),
+  );
+
+  return { nodes, missing, edges };
+};
+
+/**
+ * Renders the graph in the Graphviz DOT language, bindings whose
+ * providers never ran are dashed and missing ones are red
+ *
+ * @example
+ *
+ * writeFileSync('container.dot', toDot(container.inspect()))
+ */
+export const toDot = (graph: ContainerGraph, name = 'container') => {
+  const escapeLabel = (value: string) =>
+    value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+  const { nodes, missing, edges } = layout(graph);
+
+  return [
+    `digraph "${escapeLabel(name)}" {`,
+    ...nodes.map(
+      ({ id, label, node }) =>
+        `  ${id} [label="${escapeLabel(label)}"${node.resolved ? '' : ', style=dashed'}];`,
+    ),
+    ...missing.map(
+      ({ id, label }) => `  ${id} [label="${escapeLabel(label)}", color=red];`,
+    ),
+    ...edges.map(([from, to]) => `  ${from} -> ${to};`),
+    '}',
+  ].join('\n');
+};
+
+/**
+ * Renders the graph as a Mermaid flowchart, bindings whose
+ * providers never ran and missing ones get their own class
+ *
+ * @example
+ *
+ * const markdown = ['```mermaid', toMermaid(container.inspect()), '```'].join('\n')
+ */
+export const toMermaid = (
+  graph: ContainerGraph,
+  direction: 'TD' | 'LR' = 'TD',
+) => {
+  const escapeLabel = (value: string) =>
+    value.replace(/"/g, '#quot;').replace(/\n/g, '<br/>');
+  const { nodes, missing, edges } = layout(graph);
+  const unresolved = nodes.filter(({ node }) => !node.resolved);
+
+  return [
+    `graph ${direction}`,
+    ...nodes.map(({ id, label }) => `  ${id}["${escapeLabel(label)}"]`),
+    ...missing.map(({ id, label }) => `  ${id}["${escapeLabel(label)}"]`),
+    ...edges.map(([from, to]) => `  ${from} --> ${to}`),
+    ...(unresolved.length
+      ? [`  class ${unresolved.map(({ id }) => id).join(',')} unresolved`]
+      : []),
+    ...(missing.length
+      ? [`  class ${missing.map(({ id }) => id).join(',')} missing`]
+      : []),
+    '  classDef unresolved stroke-dasharray: 5 5',
+    '  classDef missing stroke:#f00',
+  ].join('\n');
+};
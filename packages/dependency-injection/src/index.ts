@@ -3,8 +3,16 @@ export * from './primitive-container'
 
 export * from './types'
 
+export * from './tokens'
+
+export * from './errors'
+
+export * from './graph'
+
 export * from './pre-process-dependency-container'
 
 export * from './create-mixin-with-use'
 
+export * from './plugins'
+
 export * from './basic-container'
\ No newline at end of file
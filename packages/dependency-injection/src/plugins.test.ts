@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { UnknownPluginTagError } from './errors';
+import { parseTagExpression, selectPluginsByTags } from './plugins';
+
+describe('parseTagExpression', () => {
+  const matches = (expression: string, tags: string[]) =>
+    parseTagExpression(expression).matches(new Set(tags));
+
+  it('evaluates operators with precedence and parentheses', () => {
+    expect(matches('feature-x && !legacy', ['feature-x'])).toBe(true);
+    expect(matches('feature-x && !legacy', ['feature-x', 'legacy'])).toBe(
+      false,
+    );
+    expect(matches('a || b && c', ['a'])).toBe(true);
+    expect(matches('(a || b) && c', ['a'])).toBe(false);
+    expect(matches('!(a || b)', [])).toBe(true);
+  });
+
+  it('returns the tags it mentions', () => {
+    expect(parseTagExpression('payments && !(legacy || beta)').tags).toEqual([
+      'payments',
+      'legacy',
+      'beta',
+    ]);
+    expect(
+      parseTagExpression('payments && !(legacy || !beta)').selectingTags,
+    ).toEqual(['payments', 'beta']);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseTagExpression('a & b')).toThrow(SyntaxError);
+    expect(() => parseTagExpression('a b')).toThrow(
+      'Invalid tag expression "a b"',
+    );
+    expect(() => parseTagExpression('(a || b')).toThrow(SyntaxError);
+    expect(() => parseTagExpression('a &&')).toThrow(SyntaxError);
+    expect(() => parseTagExpression('')).toThrow(SyntaxError);
+  });
+});
+
+describe('selectPluginsByTags', () => {
+  const plugins = ['checkout', 'invoices', 'legacyInvoices'];
+  const pluginsByTag = new Map([
+    ['payments', new Set(['checkout', 'invoices', 'legacyInvoices'])],
+    ['invoices', new Set(['invoices', 'legacyInvoices'])],
+    ['legacy', new Set(['legacyInvoices'])],
+  ]);
+
+  it('selects each matching plugin once in registration order', () => {
+    expect(
+      selectPluginsByTags(
+        ['invoices', 'payments && !legacy'],
+        plugins,
+        pluginsByTag,
+      ),
+    ).toEqual(['checkout', 'invoices', 'legacyInvoices']);
+    expect(
+      selectPluginsByTags(['payments && !legacy'], plugins, pluginsByTag),
+    ).toEqual(['checkout', 'invoices']);
+  });
+
+  it('reports unknown tags with suggestions', () => {
+    const select = () =>
+      selectPluginsByTags(['paymnets'], plugins, pluginsByTag);
+
+    expect(select).toThrow(UnknownPluginTagError);
+    expect(select).toThrow(
+      'No plugin is registered with the tag "paymnets". Did you mean "payments"?',
+    );
+  });
+
+  it('accepts unknown tags that are only negated', () => {
+    expect(
+      selectPluginsByTags(['invoices && !beta'], plugins, pluginsByTag),
+    ).toEqual(['invoices', 'legacyInvoices']);
+    expect(() =>
+      selectPluginsByTags(['payments && !!beta'], plugins, pluginsByTag),
+    ).toThrow(UnknownPluginTagError);
+  });
+});
@@ -0,0 +1,631 @@
+import {
+  AsyncPluginError,
+  findSuggestions,
+  PluginDependencyError,
+  UnknownPluginTagError,
+} from './errors';
+import type { ContainerSnapshot, Identifier, PlainObject } from './types';
+
+/**
+ * A plugin function that can optionally have sub-plugins attached as properties
+ */
+export type PluginWithSubPlugins<Context> = ((ctx: Context) => void) & {
+  [key: string]: ((ctx: Context) => void) | undefined;
+};
+
+/**
+ * Named plugin that can depend on other named plugins, containers
+ * apply it after its dependencies and only once
+ *
+ * @example
+ *
+ * const usersPlugin: PluginDescriptor<BasicContainer<Services>, Services> = {
+ *   name: 'users',
+ *   dependsOn: ['http'],
+ *   provides: ['usersApi'],
+ *   setup: (ctx) => ctx.bind('usersApi', { ... }),
+ *   subPlugins: {
+ *     mock: (ctx) => ctx.bind('usersApi', { ... })
+ *   }
+ * }
+ */
+export interface PluginDescriptor<
+  Context,
+  Register extends PlainObject = PlainObject,
+> {
+  name: string;
+  /**
+   * Names of the plugins that must be applied before this one
+   */
+  dependsOn?: string[];
+  /**
+   * Identifiers bound by the plugin
+   */
+  provides?: (keyof Register)[];
+  setup: (ctx: Context) => void;
+  /**
+   * Variants of `setup` selected with `useSubPlugin`, like `mock`
+   */
+  subPlugins?: Record<string, ((ctx: Context) => void) | undefined>;
+}
+
+/**
+ * A plugin can be either a simple function, a function with sub-plugins
+ * or a descriptor
+ */
+export type Plugin<Context, Register extends PlainObject = PlainObject> =
+  | ((ctx: Context) => void)
+  | PluginWithSubPlugins<Context>
+  | PluginDescriptor<Context, Register>;
+
+/**
+ * Named plugin whose code is loaded on demand, usually with a dynamic
+ * import so it ends up in its own chunk. It is loaded by `applyPlugins`
+ * or by the first `getAsync` of an identifier it `provides`
+ *
+ * @example
+ *
+ * container.registerPlugin({
+ *   name: 'reports',
+ *   provides: ['reportsApi'],
+ *   load: () => import('./reports/plugin')
+ * }, ['reports'])
+ */
+export interface LazyPluginDescriptor<
+  Context,
+  Register extends PlainObject = PlainObject,
+> {
+  name: string;
+  /**
+   * Names of the plugins that must be applied before this one
+   */
+  dependsOn?: string[];
+  /**
+   * Identifiers bound by the plugin, requesting one loads it
+   */
+  provides?: (keyof Register)[];
+  /**
+   * Resolves to the plugin or to a module exporting it as default
+   */
+  load: () => Promise<
+    Plugin<Context, Register> | { default: Plugin<Context, Register> }
+  >;
+}
+
+/**
+ * Anything that can be registered in a container
+ */
+export type RegisteredPlugin<
+  Context,
+  Register extends PlainObject = PlainObject,
+> = Plugin<Context, Register> | LazyPluginDescriptor<Context, Register>;
+
+export const isPluginDescriptor = <Context, Register extends PlainObject>(
+  plugin: RegisteredPlugin<Context, Register>,
+): plugin is PluginDescriptor<Context, Register> =>
+  typeof plugin === 'object' && 'setup' in plugin;
+
+export const isLazyPlugin = <Context, Register extends PlainObject>(
+  plugin: RegisteredPlugin<Context, Register>,
+): plugin is LazyPluginDescriptor<Context, Register> =>
+  typeof plugin === 'object' && 'load' in plugin;
+
+const isNamedPlugin = <Context, Register extends PlainObject>(
+  plugin: RegisteredPlugin<Context, Register>,
+): plugin is
+  | PluginDescriptor<Context, Register>
+  | LazyPluginDescriptor<Context, Register> => typeof plugin === 'object';
+
+/**
+ * What identifies a plugin once applied, descriptors by name
+ * and plain functions by reference
+ */
+export const getPluginKey = <Context, Register extends PlainObject>(
+  plugin: RegisteredPlugin<Context, Register>,
+) => (isNamedPlugin(plugin) ? plugin.name : plugin);
+
+const getSubPlugins = <Context, Register extends PlainObject>(
+  plugin: Plugin<Context, Register>,
+): Record<string, ((ctx: Context) => void) | undefined> =>
+  isPluginDescriptor(plugin)
+    ? (plugin.subPlugins ?? {})
+    : (plugin as PluginWithSubPlugins<Context>);
+
+/**
+ * The first of the given sub plugins the plugin has, variants
+ * left `undefined`, like the ones removed at build time, are skipped
+ */
+export const getPluginVariant = <Context, Register extends PlainObject>(
+  plugin: Plugin<Context, Register>,
+  subPluginNames: readonly string[] = [],
+): string | undefined => {
+  const subPlugins = getSubPlugins(plugin);
+
+  return subPluginNames.find(
+    (name) =>
+      Object.hasOwn(subPlugins, name) && typeof subPlugins[name] === 'function',
+  );
+};
+
+/**
+ * The function to run for a plugin, the first of the given sub plugins
+ * it has or the plugin itself when it has none of them
+ */
+export const getPluginSetup = <Context, Register extends PlainObject>(
+  plugin: Plugin<Context, Register>,
+  subPluginNames: readonly string[] = [],
+): ((ctx: Context) => void) => {
+  const variant = getPluginVariant(plugin, subPluginNames);
+
+  if (variant !== undefined)
+    return getSubPlugins(plugin)[variant] as (ctx: Context) => void;
+
+  return isPluginDescriptor(plugin) ? plugin.setup : plugin;
+};
+
+/**
+ * Which sub plugins to use: a name, a fallback chain tried in order
+ * or, to pick different ones for some plugins, the chain plus
+ * `overrides` keyed by plugin name (the function name
+ * for plain plugins), an empty chain selects the plugin itself
+ *
+ * @example
+ *
+ * container.withSubPlugin({
+ *   variants: ['storybook', 'mock'],
+ *   overrides: { analytics: [] }
+ * }, (c) => c.applyPlugins())
+ */
+export type SubPluginSelection =
+  | string
+  | string[]
+  | {
+      variants?: string | string[];
+      overrides?: Record<string, string | string[]>;
+    };
+
+const toNames = (names: string | string[] | undefined) =>
+  typeof names === 'string' ? [names] : (names ?? []);
+
+/**
+ * Orders plugins so each descriptor comes after the ones it depends on,
+ * dependencies that were not requested are taken from the registered
+ * plugins, the ones already applied are skipped
+ */
+export function sortPlugins<Context, Register extends PlainObject>(
+  requested: Iterable<RegisteredPlugin<Context, Register>>,
+  registered: Iterable<RegisteredPlugin<Context, Register>>,
+  isApplied: (name: string) => boolean,
+): RegisteredPlugin<Context, Register>[] {
+  const requestedPlugins = [...requested];
+  const byName = new Map(
+    [...registered, ...requestedPlugins]
+      .filter(isNamedPlugin)
+      .map((plugin) => [plugin.name, plugin]),
+  );
+  const sorted: RegisteredPlugin<Context, Register>[] = [];
+  const visiting: string[] = [];
+
+  const visit = (plugin: RegisteredPlugin<Context, Register>) => {
+    if (sorted.includes(plugin)) return;
+
+    if (isNamedPlugin(plugin)) {
+      const { name, dependsOn = [] } = plugin;
+
+      if (visiting.includes(name)) {
+        const cycle = [...visiting.slice(visiting.indexOf(name)), name];
+
+        throw new PluginDependencyError(
+          `Circular plugin dependency detected: ${cycle.join(' -> ')}`,
+          name,
+          cycle,
+        );
+      }
+
+      const pending = dependsOn.filter((dependency) => !isApplied(dependency));
+      const missing = pending.filter((dependency) => !byName.has(dependency));
+
+      if (missing.length)
+        throw new PluginDependencyError(
+          `Plugin "${name}" depends on ${missing.map((dependency) => `"${dependency}"`).join(', ')} which ${missing.length > 1 ? 'are' : 'is'} not registered`,
+          name,
+          missing,
+        );
+
+      visiting.push(name);
+      pending.forEach((dependency) => {
+        visit(byName.get(dependency) as RegisteredPlugin<Context, Register>);
+      });
+      visiting.pop();
+    }
+
+    sorted.push(plugin);
+  };
+
+  requestedPlugins.forEach(visit);
+
+  return sorted;
+}
+
+type TagPredicate = (tags: ReadonlySet<string>) => boolean;
+
+/**
+ * Parses a tag expression such as `'feature-x && !legacy'` into a predicate
+ * over the tags of a plugin, supports `&&`, `||`, `!` and parentheses
+ * with the usual precedence. Also returns the tags it mentions and, as
+ * `selectingTags`, the ones it mentions un-negated
+ */
+export function parseTagExpression(expression: string) {
+  const tokens = expression.match(/&&|\|\||[!()]|[^\s&|!()]+/g) ?? [];
+  const tags = new Set<string>();
+  const selectingTags = new Set<string>();
+  const invalid = () =>
+    new SyntaxError(`Invalid tag expression "${expression}"`);
+  let position = 0;
+
+  // characters the tokens do not cover, like a single `&`
+  if (tokens.join('') !== expression.replace(/\s+/g, '')) throw invalid();
+
+  const parseOperand = (negated: boolean): TagPredicate => {
+    const token = tokens[position++];
+
+    if (token === '!') {
+      const operand = parseOperand(!negated);
+
+      return (pluginTags) => !operand(pluginTags);
+    }
+
+    if (token === '(') {
+      const inner = parseOr(negated);
+
+      if (tokens[position++] !== ')') throw invalid();
+
+      return inner;
+    }
+
+    if (
+      token === undefined ||
+      token === '&&' ||
+      token === '||' ||
+      token === ')'
+    )
+      throw invalid();
+
+    tags.add(token);
+
+    if (!negated) selectingTags.add(token);
+
+    return (pluginTags) => pluginTags.has(token);
+  };
+
+  const parseBinary = (operator: string, parseSide: () => TagPredicate) => {
+    let left = parseSide();
+
+    while (tokens[position] === operator) {
+      position++;
+
+      const previous = left;
+      const right = parseSide();
+
+      left =
+        operator === '&&'
+          ? (pluginTags) => previous(pluginTags) && right(pluginTags)
+          : (pluginTags) => previous(pluginTags) || right(pluginTags);
+    }
+
+    return left;
+  };
+
+  const parseAnd = (negated: boolean) =>
+    parseBinary('&&', () => parseOperand(negated));
+  const parseOr = (negated: boolean): TagPredicate =>
+    parseBinary('||', () => parseAnd(negated));
+
+  const matches = parseOr(false);
+
+  if (position !== tokens.length) throw invalid();
+
+  return { matches, tags: [...tags], selectingTags: [...selectingTags] };
+}
+
+/**
+ * Plugins matching any of the tag expressions, in registration order
+ * and once even if they match several expressions. Tags that no
+ * registered plugin has are reported, most likely typos, unless they
+ * are only negated as excluding a tag nobody has yet is harmless
+ */
+export function selectPluginsByTags<PluginType>(
+  expressions: string[],
+  plugins: Iterable<PluginType>,
+  pluginsByTag: ReadonlyMap<string, ReadonlySet<PluginType>>,
+): PluginType[] {
+  const parsed = expressions.map(parseTagExpression);
+  const unknownTag = parsed
+    .flatMap(({ selectingTags }) => selectingTags)
+    .find((tag) => !pluginsByTag.has(tag));
+
+  if (unknownTag !== undefined)
+    throw new UnknownPluginTagError(
+      unknownTag,
+      findSuggestions(unknownTag, pluginsByTag.keys()) as string[],
+    );
+
+  return [...plugins].filter((plugin) => {
+    const tags = new Set(
+      [...pluginsByTag]
+        .filter(([, tagged]) => tagged.has(plugin))
+        .map(([tag]) => tag),
+    );
+
+    return parsed.some(({ matches }) => matches(tags));
+  });
+}
+
+type PluginRegistryState<Context, Register extends PlainObject> = {
+  registered: RegisteredPlugin<Context, Register>[];
+  byTag: [string, RegisteredPlugin<Context, Register>[]][];
+  applied: unknown[];
+  selection: SubPluginSelection;
+};
+
+/**
+ * Runs the setup of a plugin in a container
+ */
+export type RunPlugin<Context> = (
+  setup: (ctx: Context) => void,
+  name?: string,
+  variant?: string,
+) => void;
+
+/**
+ * Plugin bookkeeping shared by `BasicContainer` and `BasicChildContainer`:
+ * registered plugins and their tags, the plugins already applied and
+ * the sub plugins selected
+ */
+export class PluginRegistry<
+  Context,
+  Register extends PlainObject = PlainObject,
+> {
+  private registered = new Set<RegisteredPlugin<Context, Register>>();
+  private byTag = new Map<string, Set<RegisteredPlugin<Context, Register>>>();
+  // descriptor names and plain plugin functions already applied
+  private applied = new Set<unknown>();
+  private loading = new Map<
+    LazyPluginDescriptor<Context, Register>,
+    Promise<Plugin<Context, Register>>
+  >();
+  private snapshots = new WeakMap<
+    ContainerSnapshot,
+    PluginRegistryState<Context, Register>
+  >();
+
+  /**
+   * @param run applies a plugin setup to the container
+   * @param selection sub plugins used until another selection is made,
+   * the active profiles of the container
+   * @param parent registry of the parent container, its lazy plugins
+   * are loaded for identifiers requested by the child
+   */
+  constructor(
+    private run: RunPlugin<Context>,
+    private selection: SubPluginSelection = [],
+    private parent?: PluginRegistry<unknown>,
+  ) {}
+
+  register(plugin: RegisteredPlugin<Context, Register>, tags?: string[]) {
+    this.registered.add(plugin);
+
+    tags?.forEach((tag) => {
+      this.byTag.set(tag, (this.byTag.get(tag) ?? new Set()).add(plugin));
+    });
+  }
+
+  /**
+   * Registered plugins not applied yet, with `tags` only the ones
+   * matching any of the tag expressions
+   */
+  pending(tags?: string[]) {
+    const plugins = tags
+      ? selectPluginsByTags(tags, this.registered, this.byTag)
+      : [...this.registered];
+
+    return plugins.filter((plugin) => !this.applied.has(getPluginKey(plugin)));
+  }
+
+  /**
+   * Applies the plugins, named ones after the plugins they depend on and
+   * only once, picking sub plugins by the current selection. Plugins
+   * before the first lazy one are applied right away, the returned
+   * promise settles once the lazy ones are loaded and applied
+   *
+   * Without `loadLazy`, reaching a lazy plugin not applied yet throws
+   */
+  apply(
+    plugins: Iterable<RegisteredPlugin<Context, Register>>,
+    loadLazy = false,
+  ): Promise<void> | undefined {
+    // the selection is read now, it may change while loading
+    const sorted = sortPlugins(plugins, this.registered, (name) =>
+      this.applied.has(name),
+    ).map((plugin) => ({
+      plugin,
+      subPluginNames: this.getSubPluginNames(plugin),
+    }));
+
+    const applyFrom = (start: number): Promise<void> | undefined => {
+      for (let index = start; index < sorted.length; index++) {
+        const { plugin, subPluginNames } = sorted[index];
+
+        if (isNamedPlugin(plugin) && this.applied.has(plugin.name)) continue;
+
+        if (!isLazyPlugin(plugin)) {
+          this.runPlugin(plugin, getPluginKey(plugin), subPluginNames);
+          continue;
+        }
+
+        if (!loadLazy)
+          throw new PluginDependencyError(
+            `Plugin "${plugin.name}" is loaded lazily and was not loaded yet, use applyPlugins to load it`,
+            plugin.name,
+            [],
+          );
+
+        return this.load(plugin).then((loaded) => {
+          if (!this.applied.has(plugin.name))
+            this.runPlugin(loaded, plugin.name, subPluginNames);
+
+          return applyFrom(index + 1);
+        });
+      }
+
+      return undefined;
+    };
+
+    return applyFrom(0);
+  }
+
+  /**
+   * Loads and applies the lazy plugins providing the identifier,
+   * the ones of the parent registries too
+   */
+  preload(identifier: Identifier): Promise<void> {
+    return Promise.all([
+      this.apply(this.getLazyProviders(identifier), true),
+      this.parent?.preload(identifier),
+    ]).then(() => undefined);
+  }
+
+  /**
+   * Name of a lazy plugin not applied yet providing the identifier,
+   * in this registry or its parents
+   */
+  findLazyProvider(identifier: Identifier): string | undefined {
+    return (
+      this.getLazyProviders(identifier)[0]?.name ??
+      this.parent?.findLazyProvider(identifier)
+    );
+  }
+
+  has(name: string) {
+    return this.applied.has(name);
+  }
+
+  select(selection: SubPluginSelection) {
+    this.selection = selection;
+  }
+
+  /**
+   * Uses the selection only while `fn` runs
+   */
+  withSelection(selection: SubPluginSelection, fn: () => void) {
+    const previous = this.selection;
+
+    this.selection = selection;
+
+    try {
+      fn();
+    } finally {
+      this.selection = previous;
+    }
+  }
+
+  save(token: ContainerSnapshot) {
+    this.snapshots.set(token, {
+      registered: [...this.registered],
+      byTag: [...this.byTag].map(([tag, plugins]) => [tag, [...plugins]]),
+      applied: [...this.applied],
+      selection: this.selection,
+    });
+  }
+
+  restore(token: ContainerSnapshot) {
+    const state = this.snapshots.get(token);
+
+    if (!state) return;
+
+    this.registered = new Set(state.registered);
+    this.byTag = new Map(
+      state.byTag.map(([tag, plugins]) => [tag, new Set(plugins)]),
+    );
+    this.applied = new Set(state.applied);
+    this.selection = state.selection;
+  }
+
+  /**
+   * Applies the setup of the plugin picked by the sub plugin names,
+   * a plugin returning a promise throws instead of binding nothing
+   */
+  private runPlugin(
+    plugin: Plugin<Context, Register>,
+    key: unknown,
+    subPluginNames: string[],
+  ) {
+    const setup = getPluginSetup(plugin, subPluginNames);
+
+    this.run(
+      (ctx) => {
+        const result: unknown = setup(ctx);
+
+        if (
+          typeof (result as PromiseLike<unknown> | undefined)?.then !==
+          'function'
+        )
+          return;
+
+        // nobody awaits it, its rejection must not go unhandled
+        Promise.resolve(result).catch(() => undefined);
+
+        throw new AsyncPluginError(plugin.name || 'anonymous');
+      },
+      plugin.name,
+      getPluginVariant(plugin, subPluginNames),
+    );
+    this.applied.add(key);
+  }
+
+  /**
+   * Loads a lazy plugin once, failed loads are forgotten so they can be retried
+   */
+  private load(plugin: LazyPluginDescriptor<Context, Register>) {
+    const loading =
+      this.loading.get(plugin) ??
+      plugin.load().then(
+        // a module namespace, descriptors have a setup instead
+        (loaded) =>
+          typeof loaded === 'object' && !('setup' in loaded)
+            ? loaded.default
+            : loaded,
+        (error: unknown) => {
+          this.loading.delete(plugin);
+
+          throw error;
+        },
+      );
+
+    this.loading.set(plugin, loading);
+
+    return loading;
+  }
+
+  private getLazyProviders(identifier: Identifier) {
+    return [...this.registered].filter(
+      (plugin): plugin is LazyPluginDescriptor<Context, Register> =>
+        isLazyPlugin(plugin) &&
+        !this.applied.has(plugin.name) &&
+        !!plugin.provides?.includes(identifier),
+    );
+  }
+
+  private getSubPluginNames(plugin: RegisteredPlugin<Context, Register>) {
+    const { selection } = this;
+
+    if (typeof selection === 'string' || Array.isArray(selection))
+      return toNames(selection);
+
+    const { variants, overrides = {} } = selection;
+
+    return Object.hasOwn(overrides, plugin.name)
+      ? toNames(overrides[plugin.name])
+      : toNames(variants);
+  }
+}
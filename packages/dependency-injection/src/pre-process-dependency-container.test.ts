@@ -1,6 +1,7 @@
 
-import { describe, it, expect } from 'vitest'
-import { PreProcessDependencyContainer, PreProcessDependencyContainerWithUse, createAutoResolveDepsInOrder, createAutoResolver } from './pre-process-dependency-container'
+import { describe, it, expect, vi } from 'vitest'
+import { ChildPreProcessDependencyContainerWithUse, PreProcessDependencyContainer, PreProcessDependencyContainerWithUse, createAutoResolveDepsInOrder, createAutoResolver } from './pre-process-dependency-container'
+import type { IPreProcessDependencyContainer } from './types'
 
 describe('PreProcessDependencyContainer', () => {
   it('runs resolver before provider and passes resolved deps', () => {
@@ -13,7 +14,6 @@ describe('PreProcessDependencyContainer', () => {
 
   container.bind('sum', {
       scope: 'transient',
-      //@ts-expect-error
       resolveDependencies: createAutoResolveDepsInOrder([
         { identifier: 'firstNumber'},
         { identifier: 'secondNumber'}
@@ -27,6 +27,43 @@ describe('PreProcessDependencyContainer', () => {
   expect(container.get('sum')).toBe(3)
   })
 
+  it('passes the dispose option to the container', async () => {
+    const close = vi.fn()
+    const container = new PreProcessDependencyContainer<{ db: { close: () => void } }>()
+
+    container.bind('db', {
+      provider: () => ({ close }),
+      dispose: (db) => db.close()
+    })
+
+    container.get('db')
+
+    await container.dispose()
+
+    expect(close).toHaveBeenCalledOnce()
+  })
+
+  it('collects contributions bound with bindMany', () => {
+    type Reg = { prefix: string; interceptors: (url: string) => string }
+
+    const container = new PreProcessDependencyContainer<Reg>()
+
+    container.bind('prefix', { provider: () => '/api' })
+    container.bindMany('interceptors', {
+      resolveDependencies: createAutoResolver<Reg, 'prefix'>([{ identifier: 'prefix' }]),
+      provider: ({ prefix }) => (url) => `${prefix}${url}`
+    })
+    container.bindMany('interceptors', {
+      provider: () => (url) => `${url}?v=1`
+    })
+
+    const url = container
+      .getAll('interceptors')
+      .reduce((current, interceptor) => interceptor(current), '/users')
+
+    expect(url).toBe('/api/users?v=1')
+  })
+
   it('createAutoResolver returns object mapped by keys', () => {
     type Reg = { firstNumber: number; secondNumber: number; bag: { firstNumber: number; secondNumber: number } }
 
@@ -51,6 +88,528 @@ describe('PreProcessDependencyContainer', () => {
   })
 })
 
+describe('decorators', () => {
+  type Reg = {
+    prefix: string;
+    greeter: { greet: (name: string) => string };
+  }
+
+  const bindGreeter = (container: PreProcessDependencyContainer<Reg>) => container
+    .bind('prefix', { provider: () => 'Hello' })
+    .bind('greeter', {
+      resolveDependencies: (ctx) => ctx.get('prefix'),
+      provider: (prefix) => ({ greet: (name: string) => `${prefix} ${name}` })
+    })
+
+  it('stacks decorators in the order they are added, even before binding', () => {
+    const container = new PreProcessDependencyContainer<Reg>()
+
+    container
+      .decorate('greeter', (greeter) => ({ greet: (name) => `${greeter.greet(name)}!` }))
+      .decorate('greeter', (greeter, ctx) => ({ 
+        greet: (name) => greeter.greet(name).replace(ctx.get('prefix'), 'Hi') 
+      }))
+
+    bindGreeter(container)
+
+    expect(container.get('greeter').greet('Ada')).toBe('Hi Ada!')
+    expect(container.get('greeter')).toBe(container.get('greeter'))
+  })
+
+  it('decorates parent bindings only for the child', () => {
+    const parent = bindGreeter(new PreProcessDependencyContainer<Reg>())
+    const child = new ChildPreProcessDependencyContainerWithUse<Record<never, never>, Reg>(parent)
+
+    child.decorate('greeter', (greeter) => ({ greet: (name) => greeter.greet(name).toUpperCase() }))
+
+    expect(child.get('greeter').greet('Ada')).toBe('HELLO ADA')
+    expect(child.get('greeter')).toBe(child.get('greeter'))
+    expect(parent.get('greeter').greet('Ada')).toBe('Hello Ada')
+  })
+
+  it('applies parent decorators before the child ones', () => {
+    const parent = bindGreeter(new PreProcessDependencyContainer<Reg>())
+    const scope = parent.createScope()
+
+    parent.decorate('greeter', (greeter) => ({ greet: (name) => `${greeter.greet(name)}.` }))
+    scope.decorate('greeter', (greeter) => ({ greet: (name) => `<${greeter.greet(name)}>` }))
+
+    expect(scope.get('greeter').greet('Ada')).toBe('<Hello Ada.>')
+  })
+
+  it('is type-checked against the register', () => {
+    const container = new PreProcessDependencyContainer<Reg>()
+
+    // @ts-expect-error decorators must return the registered type
+    container.decorate('prefix', () => 1)
+    // @ts-expect-error unknown identifier
+    container.decorate('missing', (value) => value)
+
+    expect(container).toBeDefined()
+  })
+})
+
+describe('async bindings', () => {
+  type Reg = {
+    config: { url: string };
+    db: Promise<{ url: string; n: number }>;
+    repo: Promise<{ db: { url: string } }>;
+  }
+
+  it('resolves async dependencies and providers through getAsync', async () => {
+    const container = new PreProcessDependencyContainer<Reg>()
+
+    container.bind('config', { provider: () => ({ url: 'db://test' }) })
+    container.bindAsync('db', {
+      resolveDependencies: async (ctx) => ctx.get('config'),
+      provider: async (config) => ({ url: config.url, n: Math.random() })
+    })
+    container.bindAsync('repo', {
+      resolveDependencies: async (ctx) => ({ db: await ctx.getAsync('db') }),
+      provider: (deps) => deps
+    })
+
+    const repo = await container.getAsync('repo')
+
+    expect(repo.db.url).toBe('db://test')
+    expect(await container.getAsync('config')).toEqual({ url: 'db://test' })
+  })
+
+  it('shares in-flight singleton initialisations', async () => {
+    const provider = vi.fn(async () => ({ url: 'db://test', n: Math.random() }))
+    const container = new PreProcessDependencyContainer<Reg>()
+
+    container.bindAsync('db', { provider })
+
+    const [first, second] = await Promise.all([
+      container.getAsync('db'),
+      container.getAsync('db')
+    ])
+
+    expect(first).toBe(second)
+    expect(provider).toHaveBeenCalledOnce()
+  })
+
+  it('does not cache failed initialisations', async () => {
+    let attempts = 0
+    const container = new PreProcessDependencyContainer<Reg>()
+
+    container.bindAsync('db', {
+      provider: async () => {
+        attempts++
+
+        if(attempts === 1)
+          throw new Error('connection refused')
+
+        return { url: 'db://test', n: attempts }
+      }
+    })
+
+    await expect(container.getAsync('db')).rejects.toThrow('connection refused')
+    await expect(container.getAsync('db')).resolves.toEqual({ url: 'db://test', n: 2 })
+    await expect(container.getAsync('db')).resolves.toEqual({ url: 'db://test', n: 2 })
+  })
+
+  it('disposes the resolved value', async () => {
+    const dispose = vi.fn()
+    const container = new PreProcessDependencyContainer<Reg>()
+
+    container.bindAsync('db', {
+      provider: async () => ({ url: 'db://test', n: 1 }),
+      dispose
+    })
+
+    await container.getAsync('db')
+    await container.dispose()
+
+    expect(dispose).toHaveBeenCalledWith({ url: 'db://test', n: 1 })
+  })
+
+  it('records dependencies requested after an await', async () => {
+    const container = new PreProcessDependencyContainer<Reg>()
+
+    container.bind('config', { provider: () => ({ url: 'db://test' }) })
+    container.bindAsync('db', {
+      resolveDependencies: async (ctx) => {
+        await Promise.resolve()
+
+        return ctx.get('config')
+      },
+      provider: async (config) => ({ url: config.url, n: 1 })
+    })
+    container.bindAsync('repo', {
+      resolveDependencies: async (ctx) => {
+        await Promise.resolve()
+
+        return { db: await ctx.getAsync('db') }
+      },
+      provider: (deps) => deps
+    })
+
+    await container.getAsync('repo')
+
+    expect(container.inspect().edges).toEqual([
+      { from: 'db', to: 'config' },
+      { from: 'repo', to: 'db' }
+    ])
+  })
+
+  it('only accepts identifiers registered as promises', () => {
+    const container = new PreProcessDependencyContainer<Reg>()
+
+    // @ts-expect-error config is a sync identifier
+    container.bindAsync('config', { provider: async () => ({ url: '' }) })
+
+    expect(container).toBeDefined()
+  })
+})
+
+describe('class bindings', () => {
+  class Logger { log(message: string){ return message } }
+  class Http { constructor(readonly baseUrl: string){} }
+
+  class UsersApi {
+    static inject = ['logger', 'http'] as const
+
+    constructor(readonly logger: Logger, readonly http: Http){}
+  }
+
+  type Reg = { logger: Logger; http: Http; baseUrl: string; usersApi: UsersApi }
+
+  const createContainer = () => new PreProcessDependencyContainer<Reg>()
+    .bindTo('logger', () => new Logger(), 'singleton')
+    .bindTo('baseUrl', () => '/api')
+
+  it('injects the identifiers listed in the options', () => {
+    const container = createContainer()
+      .bindClass('http', Http, { inject: ['baseUrl'] })
+
+    expect(container.get('http').baseUrl).toBe('/api')
+    expect(container.get('http')).toBe(container.get('http'))
+  })
+
+  it('injects the identifiers listed in the static inject', () => {
+    const container = createContainer()
+      .bindClass('http', Http, { inject: ['baseUrl'], scope: 'transient' })
+      .bindClass('usersApi', UsersApi)
+
+    const usersApi = container.get('usersApi')
+
+    expect(usersApi).toBeInstanceOf(UsersApi)
+    expect(usersApi.logger).toBe(container.get('logger'))
+    expect(usersApi.http.baseUrl).toBe('/api')
+  })
+
+  it('resolves identifiers from the parent in a scope', () => {
+    const scope = createContainer()
+      .bindClass('http', Http, { inject: ['baseUrl'] })
+      .createScope()
+      .bindClass('usersApi', UsersApi, { scope: 'transient' })
+
+    expect(scope.get('usersApi').http.baseUrl).toBe('/api')
+  })
+
+  it('checks the constructor against the injected types', () => {
+    const container = createContainer()
+
+    // @ts-expect-error http is not a string
+    container.bindClass('http', Http, { inject: ['http'] })
+    // @ts-expect-error the constructor needs a base url
+    container.bindClass('http', Http)
+    // @ts-expect-error unknown identifier
+    container.bindClass('http', Http, { inject: ['url'] })
+
+    class Reversed {
+      static inject = ['http', 'logger'] as const
+
+      constructor(readonly logger: Logger, readonly http: Http){}
+    }
+
+    // @ts-expect-error arguments in the wrong order
+    container.bindClass('usersApi', Reversed)
+
+    expect(container).toBeDefined()
+  })
+})
+
+describe('dependency specs', () => {
+  type Reg = { 
+    http: { baseUrl: string }
+    logger: { log: (message: string) => void }
+    retries: number
+    session: { token: string }
+    usersApi: string
+  }
+
+  it('renames, defaults and skips missing dependencies', () => {
+    const container = new PreProcessDependencyContainer<Reg>()
+      .bindTo('http', () => ({ baseUrl: '/api' }))
+      .bind('usersApi', {
+        resolveDependencies: createAutoResolver([
+          { identifier: 'http', as: 'client' },
+          { identifier: 'logger', optional: true },
+          { identifier: 'retries', as: 'maxRetries', default: 3 }
+        ]),
+        provider: ({ client, logger, maxRetries }) => 
+          `${client.baseUrl} ${logger === undefined} ${maxRetries.toFixed(0)}`
+      })
+
+    expect(container.get('usersApi')).toBe('/api true 3')
+  })
+
+  it('prefers bound services over defaults and calls factory defaults', () => {
+    const container = new PreProcessDependencyContainer<Reg>()
+      .bindTo('http', () => ({ baseUrl: '/api' }))
+      .bindTo('retries', () => 5)
+      .bind('usersApi', {
+        resolveDependencies: createAutoResolveDepsInOrder([
+          { identifier: 'retries', default: 1 },
+          { identifier: 'session', default: (ctx: IPreProcessDependencyContainer<Reg>) => ({ token: ctx.get('http').baseUrl }) }
+        ]),
+        provider: ([retries, session]) => `${retries} ${session.token}`
+      })
+
+    expect(container.get('usersApi')).toBe('5 /api')
+  })
+
+  it('injects a getter for lazy dependencies', () => {
+    const sessionProvider = vi.fn(() => ({ token: 'secret' }))
+
+    const container = new PreProcessDependencyContainer<Reg>()
+      .bindTo('session', sessionProvider)
+      .bind('usersApi', {
+        resolveDependencies: createAutoResolver([{ identifier: 'session', lazy: true }]),
+        provider: ({ session }) => {
+          expect(sessionProvider).not.toHaveBeenCalled()
+          return session().token
+        }
+      })
+
+    expect(container.get('usersApi')).toBe('secret')
+    expect(sessionProvider).toHaveBeenCalledOnce()
+  })
+
+  it('maps resolved values with transform', () => {
+    const container = new PreProcessDependencyContainer<Reg>()
+      .bindTo('http', () => ({ baseUrl: '/api' }))
+      .bindTo('session', () => ({ token: 'secret' }))
+      .bind('usersApi', {
+        resolveDependencies: createAutoResolver([
+          { identifier: 'http', as: 'baseUrl', transform: (http: Reg['http']) => http.baseUrl },
+          { identifier: 'retries', default: 3, transform: (retries: number) => retries * 2 },
+          { identifier: 'session', as: 'token', lazy: true, transform: (session: Reg['session']) => session.token }
+        ]),
+        provider: ({ baseUrl, retries, token }) => `${baseUrl.toUpperCase()} ${retries.toFixed(0)} ${token()}`
+      })
+
+    expect(container.get('usersApi')).toBe('/API 6 secret')
+  })
+
+  it('breaks construction cycles with lazy dependencies', () => {
+    type Cyclic = { a: { b: () => { name: string } }, b: { name: string, a: { b: () => { name: string } } } }
+
+    const container = new PreProcessDependencyContainer<Cyclic>()
+      .bind('a', {
+        resolveDependencies: createAutoResolver([{ identifier: 'b', lazy: true }]),
+        provider: ({ b }) => ({ b })
+      })
+      .bind('b', {
+        resolveDependencies: createAutoResolver([{ identifier: 'a' }]),
+        provider: ({ a }) => ({ name: 'b', a })
+      })
+
+    expect(container.get('a').b().name).toBe('b')
+    expect(container.get('b').a).toBe(container.get('a'))
+  })
+
+  it('infers the resolved dependencies from the specs', () => {
+    const container = new PreProcessDependencyContainer<Reg>()
+
+    container.bind('usersApi', {
+      resolveDependencies: createAutoResolver([
+        { identifier: 'logger', optional: true },
+        { identifier: 'session', lazy: true }
+      ]),
+      // @ts-expect-error logger may be undefined
+      provider: ({ logger, session }) => `${logger.log} ${session().token}`
+    })
+
+    container.bind('usersApi', {
+      // @ts-expect-error unknown identifier
+      resolveDependencies: createAutoResolver([{ identifier: 'unknown' }]),
+      provider: () => ''
+    })
+
+    container.bind('usersApi', {
+      resolveDependencies: createAutoResolver([
+        { identifier: 'retries', transform: (retries: number) => retries > 0 }
+      ]),
+      // @ts-expect-error retries is mapped to a boolean
+      provider: ({ retries }) => retries.toFixed(0)
+    })
+
+    expect(container.has('usersApi')).toBe(true)
+  })
+})
+
+describe('validate', () => {
+  type Reg = { 
+    config: { url: string }
+    db: { query: () => string[] }
+    logger: { log: (message: string) => void }
+    request: { id: string }
+    users: { list: () => string[] }
+  }
+
+  it('reports required dependencies that are not bound without running providers', () => {
+    const provider = vi.fn(() => ({ list: () => [] }))
+
+    const container = new PreProcessDependencyContainer<Reg>()
+      .bind('users', {
+        resolveDependencies: createAutoResolver([
+          { identifier: 'db' },
+          { identifier: 'logger', optional: true },
+          { identifier: 'config', default: { url: 'db://test' } }
+        ]),
+        provider
+      })
+
+    expect(container.validate()).toEqual([{
+      type: 'missing',
+      identifier: 'users',
+      path: ['users', 'db'],
+      message: 'users depends on db which is not bound'
+    }])
+    expect(provider).not.toHaveBeenCalled()
+  })
+
+  it('reads the identifiers injected into classes', () => {
+    class Users {
+      static inject = ['db'] as const
+
+      constructor(readonly db: Reg['db']){}
+
+      list(){
+        return this.db.query()
+      }
+    }
+
+    const container = new PreProcessDependencyContainer<Reg>().bindClass('users', Users)
+
+    expect(container.validate().map(({ path }) => path)).toEqual([['users', 'db']])
+  })
+
+  it('reports singletons capturing transient or scoped bindings', () => {
+    const container = new PreProcessDependencyContainer<Reg>()
+      .bindTo('logger', () => ({ log: () => undefined }), 'transient')
+      .bindTo('request', () => ({ id: '1' }), 'scoped')
+      .bind('db', {
+        resolveDependencies: createAutoResolver([{ identifier: 'logger' }]),
+        provider: () => ({ query: () => [] }),
+        scope: 'transient'
+      })
+      .bind('users', {
+        resolveDependencies: createAutoResolveDepsInOrder([{ identifier: 'db' }, { identifier: 'request' }]),
+        provider: ([db]) => ({ list: () => db.query() })
+      })
+
+    expect(container.validate().map(({ type, message }) => [type, message])).toEqual([
+      ['captive', 'The singleton users captures the transient db'],
+      ['captive', 'The singleton users captures the scoped request']
+    ])
+  })
+
+  it('reports cycles once, lazy dependencies do not count', () => {
+    const container = new PreProcessDependencyContainer<Reg>()
+      .bind('db', {
+        resolveDependencies: createAutoResolver([{ identifier: 'config' }]),
+        provider: () => ({ query: () => [] })
+      })
+      .bind('config', {
+        resolveDependencies: createAutoResolver([{ identifier: 'users' }]),
+        provider: () => ({ url: '' })
+      })
+      .bind('users', {
+        resolveDependencies: createAutoResolver([{ identifier: 'db' }]),
+        provider: () => ({ list: () => [] })
+      })
+      .bind('logger', {
+        resolveDependencies: createAutoResolver([{ identifier: 'logger', lazy: true }]),
+        provider: () => ({ log: () => undefined })
+      })
+
+    expect(container.validate()).toEqual([{
+      type: 'cycle',
+      identifier: 'db',
+      path: ['db', 'config', 'users', 'db'],
+      message: 'Circular dependency detected: db -> config -> users -> db'
+    }])
+  })
+
+  it('discovers the dependencies requested by async resolvers', async () => {
+    type AsyncReg = { db: Promise<{ url: string }>, users: Promise<string[]>, cache: Map<string, string> }
+
+    const container = new PreProcessDependencyContainer<AsyncReg>()
+      .bindTo('cache', () => new Map(), 'transient')
+      .bindAsync('users', {
+        resolveDependencies: async (ctx) => ({ db: await ctx.getAsync('db'), cache: ctx.get('cache') }),
+        provider: ({ db }) => [db.url]
+      })
+
+    expect(container.validate().map(({ type }) => type)).toEqual(['missing'])
+  })
+
+  it('resolves scoped bindings against the scope being validated', () => {
+    const container = new PreProcessDependencyContainer<Reg>()
+      .bind('users', {
+        resolveDependencies: createAutoResolver([{ identifier: 'request' }]),
+        provider: ({ request }) => ({ list: () => [request.id] }),
+        scope: 'scoped'
+      })
+    const scope = container.createScope().bindTo('request', () => ({ id: '1' }), 'scoped')
+
+    expect(container.validate().map(({ type }) => type)).toEqual(['missing'])
+    expect(scope.validate()).toEqual([])
+  })
+})
+
+describe('warmUp', () => {
+  type Reg = { config: string, db: Promise<string>, clock: number, users: string }
+
+  it('creates every singleton and times them', async () => {
+    const clock = vi.fn(() => 1)
+    const container = new PreProcessDependencyContainer<Reg>()
+      .bindTo('clock', clock, 'transient')
+      .bind('config', { provider: () => 'config' })
+      .bindAsync('db', { provider: async () => 'db' })
+
+    const timings = await container.warmUp()
+
+    expect(timings.map(({ identifier }) => identifier)).toEqual(['config', 'db'])
+    expect(timings.every(({ duration }) => duration >= 0)).toBe(true)
+    expect(clock).not.toHaveBeenCalled()
+  })
+
+  it('only creates the singletons matching the tags', async () => {
+    const users = vi.fn(() => 'users')
+    const container = new PreProcessDependencyContainer<Reg>()
+      .bind('config', { provider: () => 'config', tags: ['startup'] })
+      .bind('users', { provider: users, tags: ['startup', 'slow'] })
+
+    const timings = await container.warmUp({ tags: ['startup && !slow'] })
+
+    expect(timings.map(({ identifier }) => identifier)).toEqual(['config'])
+    expect(users).not.toHaveBeenCalled()
+  })
+
+  it('fails with the provider error', async () => {
+    const container = new PreProcessDependencyContainer<Reg>()
+      .bindAsync('db', { provider: async () => { throw new Error('offline') } })
+
+    await expect(container.warmUp()).rejects.toThrow('Provider for db failed: offline')
+  })
+})
+
 describe('PreProcessDependencyContainerWithUse', () => {
     it('should have use method available', () => {
       const container = new PreProcessDependencyContainerWithUse<{ service: string }>()
@@ -107,6 +666,47 @@ describe('PreProcessDependencyContainerWithUse', () => {
       expect(typeof server.start).toBe('function')
     })
 
+    it('should describe bindings and discovered dependencies with inspect', () => {
+      interface Services {
+        config: { url: string };
+        client: { url: string };
+        handlers: () => void;
+        unused: number;
+      }
+
+      const parent = new PreProcessDependencyContainerWithUse<Services>()
+
+      parent.use(function configPlugin(c) {
+        c.bind('config', { provider: () => ({ url: '/api' }) })
+      })
+
+      const container = new ChildPreProcessDependencyContainerWithUse<Services, Services>(parent)
+
+      container.use(function httpPlugin(c) {
+        c.bind('client', {
+          scope: 'transient',
+          resolveDependencies: createAutoResolver<Services, 'config'>([{ identifier: 'config' }]),
+          provider: ({ config }) => config
+        })
+        c.bindMany('handlers', { provider: () => () => {} })
+        c.bindMany('handlers', { provider: () => () => {} })
+        c.bindTo('unused', () => 1)
+      })
+
+      container.get('client')
+
+      const graph = container.inspect()
+
+      expect(graph.nodes).toEqual([
+        { identifier: 'client', scope: 'transient', container: 0, plugin: 'httpPlugin', multi: false, contributions: 1, resolved: true },
+        { identifier: 'unused', scope: 'transient', container: 0, plugin: 'httpPlugin', multi: false, contributions: 1, resolved: false },
+        { identifier: 'handlers', scope: 'singleton', container: 0, plugin: 'httpPlugin', multi: true, contributions: 2, resolved: false },
+        { identifier: 'config', scope: 'singleton', container: 1, plugin: 'configPlugin', multi: false, contributions: 1, resolved: true }
+      ])
+      expect(graph.edges).toEqual([{ from: 'client', to: 'config' }])
+      expect(JSON.parse(JSON.stringify(graph))).toEqual(graph)
+    })
+
     it('should support chaining use calls', () => {
       interface Services {
         service1: string;
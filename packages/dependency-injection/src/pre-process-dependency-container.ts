@@ -1,6 +1,101 @@
 import { ChildPrimitiveContainer, PrimitiveContainer } from "./primitive-container";
-import { BindOptions, IPreProcessDependencyContainer, PlainObject } from "./types";
+import { AsyncBindOptions, AsyncBindOptionsFor, AsyncIdentifiers, AutoResolver, BindClassOptions, BindOptions, BindOptionsFor, DependencyResolver, DependencySpec, Disposer, InjectableClass, InjectedArgs, IPreProcessDependencyContainer, IPrimitiveContainer, PlainObject, Scope, ServiceIdentifier, ServiceType } from "./types";
 import { createWithUse } from "./create-mixin-with-use";
+import { isToken } from "./tokens";
+
+/**
+ * Turns bind options into a provider that resolves 
+ * the dependencies before calling the original provider
+ */
+const toProvider = <Register extends PlainObject, T extends ServiceIdentifier<Register>, M, Meta>(
+  options: BindOptions<Register, T, M, Meta>
+) => {
+  const {
+    provider,
+    resolveDependencies,
+    meta
+  } = options
+
+  return (ctx: IPreProcessDependencyContainer<Register>) => {
+    const resolvedDependencies = resolveDependencies?.(ctx, meta) as M;
+
+    return provider(resolvedDependencies, ctx, meta);
+  }
+}
+
+/**
+ * Turns async bind options into a provider returning a promise,
+ * the disposer waits for the value and skips failed initialisations
+ */
+const toAsyncBinding = <Register extends PlainObject, T extends ServiceIdentifier<Register>, M, Meta>(
+  options: AsyncBindOptions<Register, T, M, Meta>
+) => {
+  const {
+    provider,
+    resolveDependencies,
+    meta,
+    dispose
+  } = options
+
+  const asyncProvider = async (ctx: IPreProcessDependencyContainer<Register>) => {
+    const resolvedDependencies = await resolveDependencies?.(ctx, meta)
+
+    return provider(resolvedDependencies as M, ctx, meta)
+  }
+
+  const asyncDispose: Disposer<Promise<Awaited<ServiceType<Register, T>>>> | undefined = dispose 
+    && (async (pending) => {
+      const instance = await pending.then(
+        (value) => ({ value }), 
+        () => undefined
+      )
+
+      if(instance)
+        await dispose(instance.value)
+    })
+
+  return { asyncProvider, asyncDispose }
+}
+
+/**
+ * Turns a class into a provider that resolves the identifiers
+ * to inject and passes them to the constructor
+ */
+const toClassBinding = <Register extends PlainObject, T, Inject extends readonly ServiceIdentifier<Register>[]>(
+  Class: InjectableClass<Register, T, Inject>,
+  inject: Inject | undefined
+) => {
+  const identifiers = inject ?? Class.inject ?? []
+  const resolveDependencies = (ctx: IPreProcessDependencyContainer<Register>) => 
+    identifiers.map((identifier) => ctx.get(identifier)) as InjectedArgs<Register, Inject>
+
+  return {
+    provider: (ctx: IPreProcessDependencyContainer<Register>) => new Class(...resolveDependencies(ctx)),
+    resolveDependencies
+  }
+}
+
+/**
+ * Lifetime of a binding and what `validate` and `warmUp` need 
+ * to know about it, its dry run only resolves the dependencies
+ */
+const toBindingOptions = <Register extends PlainObject, Meta>(options: {
+  scope?: Scope,
+  dispose?: Disposer<any>,
+  tags?: string[],
+  meta?: Meta,
+  resolveDependencies?: (ctx: IPreProcessDependencyContainer<Register>, meta?: Meta) => unknown
+}) => {
+  const { scope, dispose, tags, meta, resolveDependencies } = options
+
+  return {
+    scope,
+    dispose,
+    tags,
+    dryRun: resolveDependencies 
+      && ((ctx: IPrimitiveContainer<any>) => resolveDependencies(ctx as IPreProcessDependencyContainer<Register>, meta))
+  }
+}
 
 export class PreProcessDependencyContainer <
   Register extends PlainObject
@@ -8,28 +103,50 @@ export class PreProcessDependencyContainer <
 implements IPreProcessDependencyContainer<Register> 
 {
   bind<
-    T extends keyof Register, 
-    M = unknown,  
+    T extends ServiceIdentifier<Register>, 
+    Resolver extends DependencyResolver<Register, Meta> = DependencyResolver<Register>,
+    Meta = any
+  >(identifier: T, options: BindOptionsFor<Register, T, Resolver, Meta>){
+    return this.registerBinding(identifier, toProvider(options), toBindingOptions(options))
+  }
+
+  bindMany<
+    T extends ServiceIdentifier<Register>, 
+    Resolver extends DependencyResolver<Register, Meta> = DependencyResolver<Register>,
+    Meta = any
+  >(identifier: T, options: BindOptionsFor<Register, T, Resolver, Meta>){
+    return this.registerBinding(identifier, toProvider(options), toBindingOptions(options), true)
+  }
+
+  bindAsync<
+    T extends AsyncIdentifiers<Register>, 
+    Resolver extends DependencyResolver<Register, Meta> = DependencyResolver<Register>,
     Meta = any
-  >(identifier: T, options: BindOptions<Register, T, M,Meta>){
-    const {
-      provider,
-      resolveDependencies,
-      scope = 'singleton',
-      meta
-    } = options
-
-    return super.bindTo(identifier, (ctx)=>{
-      const resolvedDependencies = resolveDependencies?.(
-        ctx as IPreProcessDependencyContainer<Register>, 
-        meta
-      )!;
-
-      return provider(
-        resolvedDependencies, 
-        ctx as IPreProcessDependencyContainer<Register>, 
-      meta);
-    }, scope)
+  >(identifier: T, options: AsyncBindOptionsFor<Register, T, Resolver, Meta>){
+    const { asyncProvider, asyncDispose } = toAsyncBinding(options)
+
+    return this.registerBinding(
+      identifier, 
+      asyncProvider, 
+      { ...toBindingOptions(options), dispose: asyncDispose }
+    )
+  }
+
+  bindClass<
+    T extends ServiceIdentifier<Register>,
+    const Inject extends readonly ServiceIdentifier<Register>[] = []
+  >(
+    identifier: T, 
+    Class: InjectableClass<Register, ServiceType<Register, T>, Inject>, 
+    options: BindClassOptions<Register, T, Inject> = {}
+  ){
+    const { provider, resolveDependencies } = toClassBinding(Class, options.inject)
+
+    return this.registerBinding(identifier, provider, toBindingOptions({ ...options, resolveDependencies }))
+  }
+
+  override createScope(): ChildPreProcessDependencyContainer<Register, Register>{
+    return new ChildPreProcessDependencyContainer(this)
   }
 }
 
@@ -39,28 +156,57 @@ export class ChildPreProcessDependencyContainer <
 implements IPreProcessDependencyContainer<OwnResultsbyIdentifier & ParentResultsByIdentfier> 
 {
   bind<
-    T extends keyof (OwnResultsbyIdentifier & ParentResultsByIdentfier), 
-    M = unknown,  
+    T extends ServiceIdentifier<OwnResultsbyIdentifier & ParentResultsByIdentfier>, 
+    Resolver extends DependencyResolver<OwnResultsbyIdentifier & ParentResultsByIdentfier, Meta> = DependencyResolver<OwnResultsbyIdentifier & ParentResultsByIdentfier>,
+    Meta = any
+  >(identifier: T, options: BindOptionsFor<OwnResultsbyIdentifier & ParentResultsByIdentfier, T, Resolver, Meta>){
+    return this.registerBinding(identifier, toProvider(options), toBindingOptions(options))
+  }
+
+  bindMany<
+    T extends ServiceIdentifier<OwnResultsbyIdentifier & ParentResultsByIdentfier>, 
+    Resolver extends DependencyResolver<OwnResultsbyIdentifier & ParentResultsByIdentfier, Meta> = DependencyResolver<OwnResultsbyIdentifier & ParentResultsByIdentfier>,
     Meta = any
-  >(identifier: T, options: BindOptions<OwnResultsbyIdentifier & ParentResultsByIdentfier, T, M,Meta>){
-    const {
-      provider,
-      resolveDependencies,
-      scope = 'singleton',
-      meta
-    } = options
-
-    return super.bindTo(identifier, (ctx)=>{
-      const resolvedDependencies = resolveDependencies?.(
-        ctx as IPreProcessDependencyContainer<OwnResultsbyIdentifier & ParentResultsByIdentfier>, 
-        meta
-      )!;
-
-      return provider(
-        resolvedDependencies, 
-        ctx as IPreProcessDependencyContainer<OwnResultsbyIdentifier & ParentResultsByIdentfier>, 
-      meta);
-    }, scope)
+  >(identifier: T, options: BindOptionsFor<OwnResultsbyIdentifier & ParentResultsByIdentfier, T, Resolver, Meta>){
+    return this.registerBinding(identifier, toProvider(options), toBindingOptions(options), true)
+  }
+
+  bindAsync<
+    T extends AsyncIdentifiers<OwnResultsbyIdentifier & ParentResultsByIdentfier>, 
+    Resolver extends DependencyResolver<OwnResultsbyIdentifier & ParentResultsByIdentfier, Meta> = DependencyResolver<OwnResultsbyIdentifier & ParentResultsByIdentfier>,
+    Meta = any
+  >(identifier: T, options: AsyncBindOptionsFor<OwnResultsbyIdentifier & ParentResultsByIdentfier, T, Resolver, Meta>){
+    const { asyncProvider, asyncDispose } = toAsyncBinding(options)
+
+    return this.registerBinding(
+      identifier, 
+      asyncProvider, 
+      { ...toBindingOptions(options), dispose: asyncDispose }
+    )
+  }
+
+  bindClass<
+    T extends ServiceIdentifier<OwnResultsbyIdentifier & ParentResultsByIdentfier>,
+    const Inject extends readonly ServiceIdentifier<OwnResultsbyIdentifier & ParentResultsByIdentfier>[] = []
+  >(
+    identifier: T, 
+    Class: InjectableClass<
+      OwnResultsbyIdentifier & ParentResultsByIdentfier, 
+      ServiceType<OwnResultsbyIdentifier & ParentResultsByIdentfier, T>, 
+      Inject
+    >, 
+    options: BindClassOptions<OwnResultsbyIdentifier & ParentResultsByIdentfier, T, Inject> = {}
+  ){
+    const { provider, resolveDependencies } = toClassBinding(Class, options.inject)
+
+    return this.registerBinding(identifier, provider, toBindingOptions({ ...options, resolveDependencies }))
+  }
+
+  override createScope(): ChildPreProcessDependencyContainer<
+    OwnResultsbyIdentifier & ParentResultsByIdentfier, 
+    OwnResultsbyIdentifier & ParentResultsByIdentfier
+  >{
+    return new ChildPreProcessDependencyContainer(this)
   }
 }
 
@@ -68,7 +214,7 @@ export class PreProcessDependencyContainerWithUse<T extends PlainObject>
   extends PreProcessDependencyContainer<T> {
     use(...hanlders: ((container: this)=>void)[]){
       hanlders
-        .map((handler)=>{handler(this)}, this)
+        .forEach((handler)=>{this.applyPlugin(handler)}, this)
     
       return this;
     }
@@ -78,28 +224,80 @@ export class ChildPreProcessDependencyContainerWithUse<OwnResultsbyIdentifier ex
 extends ChildPreProcessDependencyContainer<OwnResultsbyIdentifier, ParentResultsByIdentfier>{
   use(...handlers: ((container: this)=>void)[]){
     handlers
-      .map((handler)=>handler(this), this)
+      .forEach((handler)=>{this.applyPlugin(handler)}, this)
  
 
     return this;
   }
 }
 
-export const createAutoResolveDepsInOrder = <Register extends PlainObject>(
-  deps: ({
-    identifier:keyof Register, 
-    dontThrowIfNull?: boolean
-  })[]
-)=>(ctx:IPreProcessDependencyContainer<Register>)=>{
-  return deps.map(({identifier, dontThrowIfNull}) => ctx.get(identifier, dontThrowIfNull))
+const resolveDependency = <Register extends PlainObject>(
+  ctx: IPreProcessDependencyContainer<Register>,
+  spec: DependencySpec<ServiceIdentifier<Register>>
+) => {
+  const { identifier, optional, dontThrowIfNull, lazy, transform = (value: unknown) => value } = spec
+
+  const resolve = () => {
+    if(!('default' in spec) || ctx.has(identifier))
+      return transform(ctx.get(identifier, optional || dontThrowIfNull))
+
+    return transform(typeof spec.default === 'function' ? spec.default(ctx) : spec.default)
+  }
+
+  return lazy ? resolve : resolve()
 }
 
-export const createAutoResolver = <T extends PlainObject, Key extends keyof T>(deps: ({identifier:Key, dontThrowIfNull?: boolean})[])=>(
-  ctx: IPreProcessDependencyContainer<T>
-):Pick<T, Key>=>{
-  return Object
-    .fromEntries(
-      deps
-        .map(({identifier, dontThrowIfNull}) =>[identifier, ctx.get(identifier, dontThrowIfNull)])
-    ) as Pick<T, Key>;
-}
\ No newline at end of file
+/**
+ * Resolves the dependencies into an array in the given order,
+ * `bind` types it against the register of the container
+ * 
+ * @example
+ * 
+ * container.bind('calculator', {
+ *   resolveDependencies: createAutoResolveDepsInOrder([
+ *     { identifier: 'firstNumber' },
+ *     { identifier: 'precision', default: 2 }
+ *   ]),
+ *   provider: ([first, precision]) => new Calculator(first, precision)
+ * })
+ */
+export const createAutoResolveDepsInOrder = <
+  Register extends PlainObject = PlainObject,
+  const Specs extends readonly DependencySpec<ServiceIdentifier<Register>>[] = DependencySpec<ServiceIdentifier<Register>>[]
+>(
+  deps: Specs
+) => ((ctx: IPreProcessDependencyContainer<Register>) => 
+  deps.map((spec) => resolveDependency(ctx, spec))
+) as AutoResolver<Specs, 'array'>
+
+/**
+ * Resolves the dependencies into an object keyed by identifier, 
+ * token name or `as`, `bind` types it against the register of the 
+ * container
+ * 
+ * @example
+ * 
+ * container.bind('usersApi', {
+ *   resolveDependencies: createAutoResolver([
+ *     { identifier: 'http' },
+ *     { identifier: 'logger', optional: true },
+ *     { identifier: 'retries', as: 'maxRetries', default: 3 },
+ *     { identifier: 'session', lazy: true }
+ *   ]),
+ *   provider: ({ http, logger, maxRetries, session }) => 
+ *     new UsersApi(http, logger, maxRetries, () => session().token)
+ * })
+ */
+export const createAutoResolver = <
+  T extends PlainObject = PlainObject, 
+  Key extends ServiceIdentifier<T> = ServiceIdentifier<T>,
+  const Specs extends readonly DependencySpec<Key>[] = DependencySpec<Key>[]
+>(deps: Specs) => ((ctx: IPreProcessDependencyContainer<T>) => Object
+  .fromEntries(
+    deps
+      .map((spec) =>[
+        spec.as ?? (isToken(spec.identifier) ? spec.identifier.description : spec.identifier), 
+        resolveDependency(ctx, spec)
+      ])
+  )
+) as AutoResolver<Specs, 'object'>
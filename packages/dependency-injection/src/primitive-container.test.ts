@@ -1,6 +1,9 @@
 
-import { describe, it, expect } from 'vitest'
-import { PrimitiveContainer, PrimitiveContainerWithUse } from './primitive-container'
+import { setFlagsFromString } from 'node:v8'
+import { runInNewContext } from 'node:vm'
+import { describe, it, expect, vi } from 'vitest'
+import { CircularDependencyError, DependencyNotFoundError, ProviderFailedError } from './errors'
+import { ChildPrimitiveContainer, PrimitiveContainer, PrimitiveContainerWithUse } from './primitive-container'
 
 describe('PrimitiveContainer', () => {
   it('binds and resolves transient providers', () => {
@@ -69,6 +72,773 @@ describe('PrimitiveContainer', () => {
   })
 })
 
+describe('scoped lifetime', () => {
+  it('caches scoped bindings in the root container like singletons', () => {
+    const container = new PrimitiveContainer<{ requestId: number }>()
+
+    container.bindTo('requestId', () => Math.random(), 'scoped')
+
+    expect(container.get('requestId')).toBe(container.get('requestId'))
+  })
+
+  it('creates one instance per scope and shares singletons', () => {
+    interface Services {
+      config: { n: number };
+      logger: { n: number };
+    }
+
+    const container = new PrimitiveContainer<Services>()
+
+    container.bindTo('config', () => ({ n: Math.random() }), 'singleton')
+    container.bindTo('logger', () => ({ n: Math.random() }), 'scoped')
+
+    const firstScope = container.createScope()
+    const secondScope = container.createScope()
+
+    expect(firstScope.get('logger')).toBe(firstScope.get('logger'))
+    expect(firstScope.get('logger')).not.toBe(secondScope.get('logger'))
+    expect(firstScope.get('logger')).not.toBe(container.get('logger'))
+    expect(firstScope.get('config')).toBe(secondScope.get('config'))
+    expect(firstScope.get('config')).toBe(container.get('config'))
+  })
+
+  it('resolves dependencies of scoped bindings inside the scope', () => {
+    interface Services {
+      auth: { user: string };
+      logger: { prefix: string };
+    }
+
+    const container = new PrimitiveContainer<Services>()
+
+    container.bindTo('auth', () => ({ user: 'anonymous' }), 'scoped')
+    container.bindTo('logger', (ctx) => ({ prefix: ctx.get('auth').user }), 'scoped')
+
+    const scope = container.createScope()
+
+    scope.bindTo('auth', () => ({ user: 'jane' }), 'scoped')
+
+    expect(scope.get('logger').prefix).toBe('jane')
+    expect(container.get('logger').prefix).toBe('anonymous')
+  })
+
+  it('caches parent scoped bindings in child containers', () => {
+    const parent = new PrimitiveContainer<{ session: { n: number } }>()
+
+    parent.bindTo('session', () => ({ n: Math.random() }), 'scoped')
+
+    const child = new ChildPrimitiveContainer<{ session: { n: number } }, { session: { n: number } }>(parent)
+    const grandChild = child.createScope()
+
+    expect(child.get('session')).toBe(child.get('session'))
+    expect(child.get('session')).not.toBe(parent.get('session'))
+    expect(grandChild.get('session')).not.toBe(child.get('session'))
+  })
+})
+
+describe('disposal', () => {
+  it('disposes cached instances in reverse creation order', async () => {
+    const calls: string[] = []
+    const container = new PrimitiveContainer<{ a: string, b: string, c: string }>()
+
+    container.bindTo('a', () => 'a', 'singleton', (instance) => { calls.push(instance) })
+    container.bindTo('b', () => 'b', 'singleton', async (instance) => { calls.push(instance) })
+    container.bindTo('c', () => 'c', 'transient', (instance) => { calls.push(instance) })
+
+    container.get('b')
+    container.get('a')
+    container.get('c')
+
+    await container.dispose()
+
+    expect(calls).toEqual(['a', 'b'])
+  })
+
+  it('recreates singletons after being disposed', async () => {
+    const container = new PrimitiveContainer<{ obj: { n: number } }>()
+
+    container.bindTo('obj', () => ({ n: Math.random() }), 'singleton', () => {})
+
+    const first = container.get('obj')
+
+    await container.dispose()
+
+    expect(container.get('obj')).not.toBe(first)
+  })
+
+  it('cascades into child containers and scopes', async () => {
+    const calls: string[] = []
+    const container = new PrimitiveContainer<{ db: string, session: string }>()
+
+    container.bindTo('db', () => 'db', 'singleton', () => { calls.push('db') })
+    container.bindTo('session', () => 'session', 'scoped', () => { calls.push('session') })
+
+    const scope = container.createScope()
+
+    container.get('db')
+    scope.get('session')
+
+    await container.dispose()
+
+    expect(calls).toEqual(['session', 'db'])
+  })
+
+  it('disposes a scope without touching its parent', async () => {
+    const calls: string[] = []
+    const container = new PrimitiveContainer<{ db: string, session: string }>()
+
+    container.bindTo('db', () => 'db', 'singleton', () => { calls.push('db') })
+    container.bindTo('session', () => 'session', 'scoped', () => { calls.push('session') })
+
+    const scope = container.createScope()
+
+    scope.get('db')
+    scope.get('session')
+
+    await scope.dispose()
+
+    expect(calls).toEqual(['session'])
+
+    await container.dispose()
+
+    expect(calls).toEqual(['session', 'db'])
+  })
+
+  it('lets abandoned scopes be garbage collected', async () => {
+    setFlagsFromString('--expose-gc')
+
+    const gc = runInNewContext('gc') as () => void
+    const container = new PrimitiveContainer<{ session: string }>()
+
+    container.bindTo('session', () => 'session', 'scoped', () => {})
+
+    const scope = new WeakRef(container.createScope())
+
+    scope.deref()?.get('session')
+    // weak references are kept alive until the current job ends
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    gc()
+
+    expect(scope.deref()).toBeUndefined()
+    await container.dispose()
+  })
+
+  it('runs every disposer and aggregates the errors', async () => {
+    const calls: string[] = []
+    const container = new PrimitiveContainer<{ a: string, b: string, c: string }>()
+
+    container.bindTo('a', () => 'a', 'singleton', () => { calls.push('a') })
+    container.bindTo('b', () => 'b', 'singleton', () => { throw new Error('b failed') })
+    container.bindTo('c', () => 'c', 'singleton', async () => { throw new Error('c failed') })
+
+    container.get('a')
+    container.get('b')
+    container.get('c')
+
+    const error = await container.dispose().catch((e) => e)
+
+    expect(error).toBeInstanceOf(AggregateError)
+    expect(error.errors.map((e: Error) => e.message)).toEqual(['c failed', 'b failed'])
+    expect(calls).toEqual(['a'])
+  })
+
+  it('disposes the cached instance on unbind', async () => {
+    const calls: string[] = []
+    const container = new PrimitiveContainer<{ a: string }>()
+
+    container.bindTo('a', () => 'a', 'singleton', () => { calls.push('a') })
+    container.get('a')
+    container.unbind('a')
+
+    await container.dispose()
+
+    expect(calls).toEqual(['a'])
+  })
+
+  it('implements Symbol.asyncDispose', async () => {
+    const calls: string[] = []
+    const container = new PrimitiveContainer<{ a: string }>()
+
+    container.bindTo('a', () => 'a', 'singleton', () => { calls.push('a') })
+    container.get('a')
+
+    await (container as unknown as Record<symbol, () => Promise<void>>)[Symbol.asyncDispose]()
+
+    expect(calls).toEqual(['a'])
+  })
+})
+
+describe('ChildPrimitiveContainer', () => {
+  interface Services {
+    count: number;
+    label: string;
+    enabled: boolean;
+    user: { name: string } | null;
+  }
+
+  it('resolves falsy values bound in the child', () => {
+    const parent = new PrimitiveContainer<Services>()
+    const child = new ChildPrimitiveContainer<Services, Services>(parent)
+
+    parent
+      .bindTo('count', () => 10)
+      .bindTo('label', () => 'parent')
+      .bindTo('enabled', () => true)
+      .bindTo('user', () => ({ name: 'parent' }))
+
+    child
+      .bindTo('count', () => 0)
+      .bindTo('label', () => '')
+      .bindTo('enabled', () => false)
+      .bindTo('user', () => null)
+
+    expect(child.get('count')).toBe(0)
+    expect(child.get('label')).toBe('')
+    expect(child.get('enabled')).toBe(false)
+    expect(child.get('user')).toBe(null)
+  })
+
+  it('resolves falsy values bound in the parent', () => {
+    const parent = new PrimitiveContainer<Services>()
+    const child = new ChildPrimitiveContainer<Services, Services>(parent)
+
+    parent.bindTo('count', () => 0)
+
+    expect(child.get('count')).toBe(0)
+  })
+
+  it('returns undefined for unknown identifiers only when asked to', () => {
+    const child = new ChildPrimitiveContainer<Services, Services>(new PrimitiveContainer<Services>())
+
+    expect(child.get('count', true)).toBeUndefined()
+    expect(() => child.get('count')).toThrow(DependencyNotFoundError)
+  })
+
+  it('tells whether an identifier is registered without resolving it', () => {
+    const provider = vi.fn(() => 1)
+    const parent = new PrimitiveContainer<Services>()
+    const child = new ChildPrimitiveContainer<Services, Services>(parent)
+
+    parent.bindTo('count', provider)
+    child.bindTo('label', () => '')
+
+    expect(child.has('count')).toBe(true)
+    expect(child.has('count', { local: true })).toBe(false)
+    expect(child.has('label', { local: true })).toBe(true)
+    expect(child.has('enabled')).toBe(false)
+    expect(parent.has('label')).toBe(false)
+    expect(provider).not.toHaveBeenCalled()
+  })
+})
+
+describe('multi bindings', () => {
+  interface Services {
+    routes: { path: string };
+    session: { n: number };
+  }
+
+  it('returns every contribution in registration order', () => {
+    const container = new PrimitiveContainer<Services>()
+
+    container
+      .bindManyTo('routes', () => ({ path: '/users' }))
+      .bindManyTo('routes', () => ({ path: '/orders' }))
+
+    expect(container.getAll('routes').map(({ path }) => path)).toEqual(['/users', '/orders'])
+  })
+
+  it('returns an empty array without contributions', () => {
+    const container = new PrimitiveContainer<Services>()
+
+    expect(container.getAll('routes')).toEqual([])
+  })
+
+  it('keeps the lifetime of each contribution', () => {
+    const container = new PrimitiveContainer<Services>()
+
+    container
+      .bindManyTo('session', () => ({ n: Math.random() }), 'singleton')
+      .bindManyTo('session', () => ({ n: Math.random() }))
+
+    const [firstSingleton, firstTransient] = container.getAll('session')
+    const [secondSingleton, secondTransient] = container.getAll('session')
+
+    expect(firstSingleton).toBe(secondSingleton)
+    expect(firstTransient).not.toBe(secondTransient)
+  })
+
+  it('merges parent contributions first in child containers', () => {
+    const parent = new PrimitiveContainer<Services>()
+    const child = new ChildPrimitiveContainer<Services, Services>(parent)
+
+    parent.bindManyTo('routes', () => ({ path: '/host' }))
+    child.bindManyTo('routes', () => ({ path: '/remote' }))
+
+    expect(child.getAll('routes').map(({ path }) => path)).toEqual(['/host', '/remote'])
+    expect(parent.getAll('routes').map(({ path }) => path)).toEqual(['/host'])
+  })
+
+  it('counts contributions, the parent ones included, in has', () => {
+    const parent = new PrimitiveContainer<Services>()
+    const child = new ChildPrimitiveContainer<Services, Services>(parent)
+
+    parent.bindManyTo('routes', () => ({ path: '/host' }))
+
+    expect(parent.has('routes')).toBe(true)
+    expect(child.has('routes')).toBe(true)
+    expect(child.has('routes', { local: true })).toBe(false)
+    expect(child.has('session')).toBe(false)
+
+    parent.unbind('routes')
+
+    expect(child.has('routes')).toBe(false)
+  })
+
+  it('creates scoped contributions once per scope', () => {
+    const container = new PrimitiveContainer<Services>()
+
+    container.bindManyTo('session', () => ({ n: Math.random() }), 'scoped')
+
+    const scope = container.createScope()
+
+    expect(scope.getAll('session')[0]).toBe(scope.getAll('session')[0])
+    expect(scope.getAll('session')[0]).not.toBe(container.getAll('session')[0])
+  })
+
+  it('removes and disposes contributions on unbind', async () => {
+    const dispose = vi.fn()
+    const container = new PrimitiveContainer<Services>()
+
+    container.bindManyTo('routes', () => ({ path: '/users' }), 'singleton', dispose)
+    container.getAll('routes')
+    container.unbind('routes')
+
+    await container.dispose()
+
+    expect(container.getAll('routes')).toEqual([])
+    expect(dispose).toHaveBeenCalledWith({ path: '/users' })
+  })
+})
+
+describe('interceptors', () => {
+  interface Services {
+    config: { url: string };
+    client: { url: string };
+    db: Promise<{ connected: boolean }>;
+  }
+
+  it('runs around providers with the identifier, scope and meta', () => {
+    const calls: unknown[] = []
+    const container = new PrimitiveContainer<Services>()
+
+    container
+      .bindTo('config', () => ({ url: '/api' }), 'singleton')
+      .intercept((ctx, next) => {
+        calls.push(['before', ctx.identifier, ctx.scope, ctx.meta])
+        const instance = next()
+        calls.push(['after', ctx.identifier])
+
+        return instance
+      })
+
+    container.get('config', false, { requestedBy: 'test' })
+    container.get('config')
+
+    expect(calls).toEqual([
+      ['before', 'config', 'singleton', { requestedBy: 'test' }],
+      ['after', 'config']
+    ])
+  })
+
+  it('runs interceptors registered first outermost', () => {
+    const calls: string[] = []
+    const container = new PrimitiveContainer<Services>()
+
+    container
+      .bindTo('config', () => {
+        calls.push('provider')
+        return { url: '/api' }
+      })
+      .intercept((_, next) => {
+        calls.push('first')
+        return next()
+      })
+      .intercept((_, next) => {
+        calls.push('second')
+        return next()
+      })
+
+    container.get('config')
+
+    expect(calls).toEqual(['first', 'second', 'provider'])
+  })
+
+  it('uses what interceptors return as the instance', () => {
+    const container = new PrimitiveContainer<Services>()
+
+    container
+      .bindTo('config', () => ({ url: '/api' }))
+      .intercept((_, next) => ({ ...next(), url: '/proxied' }))
+
+    expect(container.get('config').url).toBe('/proxied')
+  })
+
+  it('decorates instances with onActivation, awaiting async providers', async () => {
+    const container = new PrimitiveContainer<Services>()
+
+    container
+      .bindTo('config', () => ({ url: '/api' }))
+      .bindTo('db', async () => ({ connected: false }), 'singleton')
+      .onActivation((instance, ctx) => 
+        ctx.identifier === 'db' ? { ...instance, connected: true } : instance
+      )
+
+    expect(container.get('config').url).toBe('/api')
+    expect(await container.getAsync('db')).toEqual({ connected: true })
+  })
+
+  it('applies parent interceptors to children only when asked to', () => {
+    const identifiers: unknown[] = []
+    const parent = new PrimitiveContainer<Services>()
+
+    parent
+      .intercept((ctx, next) => {
+        identifiers.push(['shared', ctx.identifier])
+        return next()
+      }, { applyToChildren: true })
+      .intercept((ctx, next) => {
+        identifiers.push(['parent only', ctx.identifier])
+        return next()
+      })
+
+    const scope = parent.createScope()
+
+    scope.bindTo('client', () => ({ url: '/scoped' }))
+    scope.get('client')
+
+    expect(identifiers).toEqual([['shared', 'client']])
+  })
+
+  it('runs parent only interceptors for bindings children inherit when the parent creates them', () => {
+    const identifiers: unknown[] = []
+    const parent = new PrimitiveContainer<Services>()
+
+    parent
+      .bindTo('client', () => ({ url: '/api' }), 'singleton')
+      .intercept((ctx, next) => {
+        identifiers.push(['parent only', ctx.identifier])
+        return { ...next(), url: '/intercepted' }
+      })
+
+    expect(parent.createScope().get('client').url).toBe('/intercepted')
+    expect(parent.get('client').url).toBe('/intercepted')
+    expect(identifiers).toEqual([['parent only', 'client']])
+  })
+
+  it('does not run parent only interceptors for bindings of children', () => {
+    const identifiers: unknown[] = []
+    const parent = new PrimitiveContainer<Services>()
+
+    parent.intercept((ctx, next) => {
+      identifiers.push(['parent only', ctx.identifier])
+      return next()
+    })
+
+    const scope = parent.createScope()
+
+    scope.bindTo('client', () => ({ url: '/scoped' }))
+    scope.get('client')
+
+    expect(identifiers).toEqual([])
+  })
+
+  it('keeps instances wrapped by children away from their parent and siblings', () => {
+    const parent = new PrimitiveContainer<Services>()
+
+    parent.bindTo('client', () => ({ url: '/api' }), 'singleton')
+
+    const child = parent.createScope()
+
+    child.onActivation((instance) => ({ ...instance, url: '/child' }))
+
+    expect(child.get('client').url).toBe('/child')
+    expect(child.get('client')).toBe(child.get('client'))
+    expect(parent.get('client').url).toBe('/api')
+    expect(parent.createScope().get('client')).toBe(parent.get('client'))
+  })
+
+  it('runs the interceptors of children for bindings they inherit', () => {
+    const identifiers: unknown[] = []
+    const parent = new PrimitiveContainer<Services>()
+
+    parent
+      .bindTo('config', () => ({ url: '/api' }))
+      .bindTo('client', (ctx) => ctx.get('config'))
+
+    const scope = parent.createScope()
+
+    scope.intercept((ctx, next) => {
+      identifiers.push(ctx.identifier)
+      return next()
+    })
+    scope.get('client')
+
+    expect(identifiers).toEqual(['client'])
+  })
+})
+
+describe('snapshots', () => {
+  interface Services {
+    api: { name: string };
+    client: { api: { name: string } };
+  }
+
+  const createContainer = () => new PrimitiveContainer<Services>()
+    .bindTo('api', () => ({ name: 'real' }), 'singleton')
+    .bindTo('client', (ctx) => ({ api: ctx.get('api') }), 'singleton')
+
+  it('restores bindings and cached singletons', () => {
+    const container = createContainer()
+    const api = container.get('api')
+    const token = container.snapshot()
+
+    container.bindTo('api', () => ({ name: 'fake' }), 'singleton')
+
+    expect(container.get('client').api.name).toBe('fake')
+
+    container.restore(token)
+
+    expect(container.get('api')).toBe(api)
+    expect(container.get('client').api).toBe(api)
+  })
+
+  it('disposes instances created after the snapshot', async () => {
+    const dispose = vi.fn()
+    const container = new PrimitiveContainer<Services>()
+      .bindTo('api', () => ({ name: 'real' }), 'singleton', dispose)
+    const token = container.snapshot()
+    const api = container.get('api')
+
+    container.restore(token)
+    await container.dispose()
+
+    expect(dispose).toHaveBeenCalledExactlyOnceWith(api)
+    expect(container.get('api')).not.toBe(api)
+  })
+
+  it('runs withOverrides and restores afterwards, also when it throws', async () => {
+    const container = createContainer()
+    const fake = { name: 'fake' }
+
+    container.withOverrides({ api: fake }, (ctx) => {
+      expect(ctx.get('client').api).toBe(fake)
+    })
+
+    expect(() => container.withOverrides({ api: fake }, () => {
+      throw new Error('failed')
+    })).toThrow('failed')
+
+    await container.withOverrides({ api: fake }, async (ctx) => {
+      await Promise.resolve()
+
+      expect(ctx.get('api')).toBe(fake)
+    })
+
+    expect(container.get('client').api.name).toBe('real')
+  })
+
+  it('overrides dependencies of singletons cached before withOverrides', () => {
+    const container = createContainer()
+    const client = container.get('client')
+    const fake = { name: 'fake' }
+
+    container.withOverrides({ api: fake }, (ctx) => {
+      expect(ctx.get('client').api).toBe(fake)
+    })
+
+    expect(container.get('client')).toBe(client)
+    expect(container.get('client').api.name).toBe('real')
+  })
+
+  it('rejects snapshots taken from another container', () => {
+    const token = createContainer().snapshot()
+
+    expect(() => createContainer().restore(token)).toThrow('not taken from this container')
+  })
+})
+
+describe('resolution errors', () => {
+  interface Services {
+    logger: string;
+    config: string;
+    client: string;
+  }
+
+  const catchError = (fn: () => unknown) => {
+    try {
+      fn()
+    } catch (error) {
+      return error
+    }
+  }
+
+  it('throws DependencyNotFoundError with suggestions', () => {
+    const container = new PrimitiveContainer<Services>()
+
+    container.bindTo('logger', () => 'logger')
+
+    const error = catchError(() => container.get('loger' as 'logger')) as DependencyNotFoundError
+
+    expect(error).toBeInstanceOf(DependencyNotFoundError)
+    expect(error.identifier).toBe('loger')
+    expect(error.suggestions).toEqual(['logger'])
+    expect(error.containerPath).toEqual([container])
+  })
+
+  it('reports the child to parent path from child containers', () => {
+    const parent = new PrimitiveContainer<Services>()
+    const child = new ChildPrimitiveContainer<Services, Services>(parent)
+
+    parent.bindTo('config', () => 'config')
+
+    const error = catchError(() => child.get('confg' as 'config')) as DependencyNotFoundError
+
+    expect(error).toBeInstanceOf(DependencyNotFoundError)
+    expect(error.containerPath).toEqual([child, parent])
+    expect(error.suggestions).toEqual(['config'])
+  })
+
+  it('wraps provider failures keeping the cause and resolution path', () => {
+    const cause = new Error('boom')
+    const container = new PrimitiveContainer<Services>()
+
+    container.bindTo('config', () => { throw cause })
+    container.bindTo('client', (ctx) => ctx.get('config'))
+
+    const error = catchError(() => container.get('client')) as ProviderFailedError
+
+    expect(error).toBeInstanceOf(ProviderFailedError)
+    expect(error.identifier).toBe('config')
+    expect(error.resolutionPath).toEqual(['client'])
+    expect(error.cause).toBe(cause)
+  })
+
+  it('reports missing dependencies of a provider without wrapping them', () => {
+    const container = new PrimitiveContainer<Services>()
+
+    container.bindTo('client', (ctx) => ctx.get('config'))
+
+    const error = catchError(() => container.get('client')) as DependencyNotFoundError
+
+    expect(error).toBeInstanceOf(DependencyNotFoundError)
+    expect(error.identifier).toBe('config')
+    expect(error.resolutionPath).toEqual(['client'])
+  })
+
+  it('wraps rejected async providers', async () => {
+    const container = new PrimitiveContainer<{ db: Promise<string> }>()
+
+    container.bindTo('db', async () => { throw new Error('refused') }, 'singleton')
+
+    await expect(container.getAsync('db')).rejects.toBeInstanceOf(ProviderFailedError)
+  })
+})
+
+describe('circular dependencies', () => {
+  interface Services {
+    a: string;
+    b: string;
+    c: string;
+  }
+
+  it('throws a CircularDependencyError with the resolution path', () => {
+    const container = new PrimitiveContainer<Services>()
+
+    container.bindTo('a', (ctx) => ctx.get('b'))
+    container.bindTo('b', (ctx) => ctx.get('c'), 'singleton')
+    container.bindTo('c', (ctx) => ctx.get('a'))
+
+    const error = (() => {
+      try {
+        container.get('a')
+      } catch (e) {
+        return e
+      }
+    })()
+
+    expect(error).toBeInstanceOf(CircularDependencyError)
+    expect((error as CircularDependencyError).path).toEqual(['a', 'b', 'c', 'a'])
+    expect((error as Error).message).toBe('Circular dependency detected: a -> b -> c -> a')
+  })
+
+  it('detects self references', () => {
+    const container = new PrimitiveContainer<Services>()
+
+    container.bindTo('a', (ctx) => ctx.get('a'), 'singleton')
+
+    expect(() => container.get('a')).toThrow(CircularDependencyError)
+  })
+
+  it('detects cycles resolved through the parent container', () => {
+    const parent = new PrimitiveContainer<Services>()
+    const child = new ChildPrimitiveContainer<Services, Services>(parent)
+
+    parent.bindTo('a', (ctx) => ctx.get('b'))
+    parent.bindTo('b', (ctx) => ctx.get('a'))
+    child.bindTo('c', (ctx) => ctx.get('a'))
+
+    expect(() => child.get('c')).toThrow('Circular dependency detected: c -> a -> b -> a')
+  })
+
+  it('keeps resolving after a cycle was reported', () => {
+    const container = new PrimitiveContainer<Services>()
+
+    container.bindTo('a', (ctx) => ctx.get('b'))
+    container.bindTo('b', (ctx) => ctx.get('a'))
+    container.bindTo('c', () => 'c')
+
+    expect(() => container.get('a')).toThrow(CircularDependencyError)
+    expect(container.get('c')).toBe('c')
+  })
+
+  it('detects cycles of async providers requesting after an await', async () => {
+    const container = new PrimitiveContainer<{ cfg: Promise<string>, a: Promise<string>, b: Promise<string> }>()
+
+    container.bindTo('cfg', async () => 'cfg', 'singleton')
+    container.bindTo('a', async (ctx) => {
+      await ctx.getAsync('cfg')
+
+      return ctx.getAsync('b')
+    }, 'singleton')
+    container.bindTo('b', async (ctx) => {
+      await ctx.getAsync('cfg')
+
+      return ctx.getAsync('a')
+    }, 'singleton')
+
+    await expect(container.getAsync('a')).rejects.toThrow('Circular dependency detected: a -> b -> a')
+  })
+
+  it('resolves what providers request once their instance is created', () => {
+    const container = new PrimitiveContainer<{ a: () => string, b: string }>()
+
+    container.bindTo('a', (ctx) => () => ctx.get('b'), 'singleton')
+    container.bindTo('b', (ctx) => `b after ${typeof ctx.get('a')}`)
+
+    expect(container.get('a')()).toBe('b after function')
+  })
+
+  it('allows resolving the same identifier in a scope and its parent', () => {
+    const container = new PrimitiveContainer<Services>()
+
+    container.bindTo('a', () => 'root a', 'scoped')
+    container.bindTo('b', (ctx) => `${ctx.get('a')} from b`, 'scoped')
+
+    const scope = container.createScope()
+
+    expect(scope.get('b')).toBe('root a from b')
+  })
+})
+
 describe('PrimitiveContainerWithUse', () => {
   it('should have use method available', () => {
     const container = new PrimitiveContainerWithUse<{ service: string }>()
@@ -1,58 +1,1249 @@
 import { createWithUse } from "./create-mixin-with-use";
-import { IPrimitiveContainer, PlainObject } from "./types";
+import { CircularDependencyError, ContainerError, DependencyNotFoundError, ProviderFailedError, findSuggestions } from "./errors";
+import { ContainerGraph, ContainerGraphEdge, ContainerGraphNode, ContainerSnapshot, Decorator, Disposer, Identifier, InterceptOptions, Interceptor, IPreProcessDependencyContainer, IPrimitiveContainer, PlainObject, ResolutionContext, Scope, ServiceIdentifier, ServiceType, ValidationIssue, WarmUpOptions, WarmUpTiming } from "./types";
+import { parseTagExpression } from "./plugins";
 
+type Registration<ResultsbyIdentifier extends PlainObject = PlainObject> = {
+  provider: (ctx: IPrimitiveContainer<ResultsbyIdentifier>)=>any
+  scope: Scope,
+  reference?: any
+  dispose?: Disposer<Instance>
+  // name of the plugin that was running when it was bound
+  plugin?: string
+  // sub plugin of that plugin, for plugins with variants
+  variant?: string
+  // identifiers requested by the provider, discovered while resolving
+  dependencies: Set<Identifier>
+  resolved: boolean
+  // selects the binding in `warmUp`
+  tags?: readonly string[]
+  // requests the dependencies of the provider without running it
+  dryRun?: (ctx: IPrimitiveContainer<PlainObject>) => unknown
+}
+
+// instance of whichever service, registrations do not know their identifier
+type Instance = ServiceType<PlainObject, Identifier>
+
+type BindingDetails = Pick<Registration, 'tags' | 'dryRun'>
+
+// options of the `bind` family of methods, see `registerBinding`
+type BindingOptions = BindingDetails & Partial<Pick<Registration, 'scope' | 'dispose'>>
+
+// a binding and every registration behind it, several for multi bindings
+type VisibleBinding = {
+  identifier: Identifier
+  registrations: Registration[]
+  owner: PrimitiveContainer<PlainObject>
+  level: number
+  multi: boolean
+}
+
+type DiscoveredDependency = { optional: boolean, multi: boolean }
+
+type DisposableEntry = { instance: unknown, dispose: Disposer<Instance> }
+
+// what a snapshot needs to put the container back, references are kept
+// apart as registrations are shared with the live registry
+type SnapshotState = {
+  registry: [Identifier, Registration, unknown][]
+  multiRegistry: [Identifier, [Registration, unknown][]][]
+  localReferences: Map<Registration, Instance>
+  disposables: DisposableEntry[]
+  decorators: Map<Identifier, Decorator<PlainObject, Identifier>[]>
+  interceptors: { interceptor: Interceptor<PlainObject>, applyToChildren: boolean }[]
+}
+
+const isPromiseLike = (value: unknown): value is PromiseLike<unknown> => 
+  typeof (value as PromiseLike<unknown> | undefined)?.then === 'function'
+
+// a provider run by a resolution, the frames above it are the 
+// providers that requested it, possibly in other containers
+type ResolutionFrame = {
+  container: PrimitiveContainer<PlainObject>
+  identifier: Identifier
+  registration: Registration
+  // until the instance is created, async ones until they settle
+  running: boolean
+}
+
+/**
+ * Cycles of a dependency graph, each one once
+ * and closed on its first identifier
+ */
+const findCycles = (graph: ReadonlyMap<Identifier, ReadonlySet<Identifier>>) => {
+  const cycles = new Map<string, Identifier[]>()
+  const visited = new Set<Identifier>()
+
+  const visit = (identifier: Identifier, path: Identifier[]) => {
+    const start = path.indexOf(identifier)
+
+    if(start !== -1){
+      const cycle = path.slice(start)
+
+      cycles.set(cycle.map(String).sort().join('\0'), [...cycle, identifier])
+
+      return
+    }
+
+    if(visited.has(identifier))
+      return
+
+    graph.get(identifier)?.forEach((dependency) => {
+      visit(dependency, [...path, identifier])
+    })
+    visited.add(identifier)
+  }
+
+  graph.forEach((_, identifier) => {
+    visit(identifier, [])
+  })
+
+  return [...cycles.values()]
+}
+
+type ChildEntry = { children: Set<WeakRef<PrimitiveContainer<PlainObject>>>, ref: WeakRef<PrimitiveContainer<PlainObject>> }
+
+// children are held weakly, abandoned ones are forgotten once collected
+const collectedChildren = new FinalizationRegistry<ChildEntry>(({ children, ref }) => {
+  children.delete(ref)
+})
+
+// runtimes and libs without explicit resource management still get a working method
+const asyncDispose: unique symbol = ((Symbol as { asyncDispose?: symbol }).asyncDispose 
+  ?? Symbol.for('Symbol.asyncDispose')) as never
 
 export class PrimitiveContainer<
   ResultsbyIdentifier extends  PlainObject
 > implements 
   IPrimitiveContainer<ResultsbyIdentifier>
 {
-  constructor(private readonly registry = new Map<
-    keyof ResultsbyIdentifier, 
-    {
-      provider: (ctx: IPrimitiveContainer<ResultsbyIdentifier>)=>any
-      scope: 'singleton' | 'transient',
-      reference?: any
-    }
+  private children = new Set<WeakRef<PrimitiveContainer<PlainObject>>>()
+  // entry of this container among the children of its parent
+  private childEntry?: ChildEntry
+  private disposables: DisposableEntry[] = []
+  private pendingDisposals: Promise<{ error: unknown } | undefined>[] = []
+  // instances of bindings inherited from a parent container held by this
+  // one, either scoped or decorated by this container
+  private localReferences = new Map<Registration, Instance>()
+  private multiRegistry = new Map<
+    ServiceIdentifier<ResultsbyIdentifier>, 
+    Registration<ResultsbyIdentifier>[]
+  >()
+  private activePlugin: { name?: string, variant?: string } = {}
+  private interceptors: { interceptor: Interceptor<PlainObject>, applyToChildren: boolean }[] = []
+  private decorators = new Map<Identifier, Decorator<PlainObject, Identifier>[]>()
+  private snapshots = new WeakMap<ContainerSnapshot, SnapshotState>()
+  // container behind a resolution view, see `createView`
+  protected readonly origin: PrimitiveContainer<PlainObject> = this
+  // providers being run by the resolution this view belongs to, outermost first
+  protected resolutionPath: readonly ResolutionFrame[] = []
+
+  constructor(protected readonly registry = new Map<
+    ServiceIdentifier<ResultsbyIdentifier>, 
+    Registration<ResultsbyIdentifier>
   >()){}
 
-  bindTo<T extends keyof ResultsbyIdentifier>(
-    identifier: T, 
-    provider: (ctx: IPrimitiveContainer<ResultsbyIdentifier>) => ResultsbyIdentifier[T],
-    scope: 'singleton' | 'transient' = 'transient'
-  ) {
-    const value = {provider, reference: undefined, scope}
+  /**
+   * Keeps track of child containers so disposing a container
+   * also disposes every child created from it, children are
+   * held weakly so abandoned ones can still be collected
+   */
+  protected attachToParent(){
+    const parent = this.getParentContainer()
+
+    if(!parent)
+      return
+
+    this.childEntry = { children: parent.children, ref: new WeakRef(this) }
+    parent.children.add(this.childEntry.ref)
+    collectedChildren.register(this, this.childEntry, this.childEntry.ref)
+  }
 
-    this.registry.set(identifier, value)
+  protected detachFromParent(){
+    if(!this.childEntry)
+      return
+
+    this.childEntry.children.delete(this.childEntry.ref)
+    collectedChildren.unregister(this.childEntry.ref)
+    this.childEntry = undefined
+  }
+
+  /**
+   * View of this container handed to a provider, whatever the provider
+   * resolves through it continues the given resolution path, async 
+   * providers included, while bindings and instances stay shared
+   */
+  private createView(resolutionPath: readonly ResolutionFrame[]): this {
+    return Object.assign(Object.create(this.origin), { resolutionPath })
+  }
+
+  /**
+   * Throws when a provider of this container still running 
+   * up the resolution path requested the identifier
+   */
+  private assertNotResolving(identifier: Identifier){
+    const isCircular = this.resolutionPath.some(({ container, running, ...frame }) => 
+      running && container === this.origin && frame.identifier === identifier
+    )
+
+    if(isCircular)
+      throw new CircularDependencyError(
+        [...this.resolutionPath.map((frame) => frame.identifier), identifier], 
+        this.getContainerPath()
+      )
+  }
+
+  /**
+   * Runs the provider of a registration with a view of this container 
+   * as context, extending the resolution path so cycles are detected
+   */
+  protected instantiate(
+    identifier: Identifier, 
+    registration: Registration,
+    meta?: unknown
+  ){
+    const resolutionPath = this.resolutionPath.map((frame) => frame.identifier)
+    // errors coming from nested resolutions already carry their context
+    const toProviderError = (error: unknown) => error instanceof ContainerError 
+      ? error 
+      : new ProviderFailedError(identifier, this.getContainerPath(), resolutionPath, error)
+    const frame: ResolutionFrame = { container: this.origin, identifier, registration, running: true }
+    const view = this.createView([...this.resolutionPath, frame])
+
+    registration.resolved = true
+
+    let instance: unknown
+
+    try {
+      instance = view.applyDecorators(
+        view.applyInterceptors(
+          identifier, 
+          registration, 
+          meta, 
+          this.getInterceptors(), 
+          () => registration.provider(view)
+        ), 
+        this.getDecorators(identifier, registration, true)
+      )
+    } catch (error) {
+      frame.running = false
+
+      throw toProviderError(error)
+    }
+
+    if(!isPromiseLike(instance)){
+      frame.running = false
+
+      return instance
+    }
+
+    return Promise.resolve(instance)
+      .catch((error: unknown) => { throw toProviderError(error) })
+      .finally(() => { frame.running = false })
+  }
+
+  /**
+   * Runs `create` through the interceptors, the first one outermost
+   */
+  private applyInterceptors(
+    identifier: Identifier, 
+    registration: Registration,
+    meta: unknown,
+    interceptors: Interceptor<PlainObject>[],
+    create: () => unknown
+  ){
+    const context: ResolutionContext<ResultsbyIdentifier> = { 
+      identifier, 
+      scope: registration.scope, 
+      variant: registration.variant,
+      meta, 
+      container: this 
+    }
+
+    return interceptors.reduceRight<() => unknown>(
+      (next, interceptor) => () => interceptor(context, next),
+      create
+    )()
+  }
+
+  /**
+   * Interceptors of this container preceded by the ones of its
+   * parents registered with `applyToChildren`, outermost first,
+   * parents from `until` up are left out
+   */
+  protected getInterceptors(
+    inherited = false, 
+    until?: PrimitiveContainer<PlainObject>
+  ): Interceptor<PlainObject>[] {
+    const parent = this.getParentContainer()
+
+    return [
+      ...(parent && parent !== until ? parent.getInterceptors(true, until) : []),
+      ...this.interceptors
+        .filter(({ applyToChildren }) => !inherited || applyToChildren)
+        .map(({ interceptor }) => interceptor)
+    ]
+  }
+
+  /**
+   * Decorators of the identifier from the container owning the registration
+   * down to this one, with `includeOwner` unset the owner ones are left
+   * out as they were already applied by the owner
+   */
+  protected getDecorators(
+    identifier: Identifier, 
+    registration: Registration,
+    includeOwner: boolean
+  ): Decorator<PlainObject, Identifier>[] {
+    const path = this.getContainerPath()
+    const ownerIndex = path.findIndex((container) => container.owns(identifier, registration))
+
+    if(ownerIndex === -1)
+      return []
+
+    return path
+      .slice(0, includeOwner ? ownerIndex + 1 : ownerIndex)
+      .reverse()
+      .flatMap((container) => container.decorators.get(identifier) ?? [])
+  }
+
+  protected applyDecorators(instance: unknown, decorators: Decorator<PlainObject, Identifier>[]){
+    return decorators.reduce((decorated, decorator) => decorator(decorated, this), instance)
+  }
+
+  /**
+   * Records the identifier as a dependency of the provider being run,
+   * the one this view was handed to, so requests made after an `await`
+   * are still attributed to it
+   */
+  protected recordDependency(identifier: Identifier){
+    this.resolutionPath.at(-1)?.registration.dependencies.add(identifier)
+  }
+
+  /**
+   * Runs a plugin, bindings it registers are attributed to it 
+   * by its name, the function name by default, and the variant
+   * that was chosen for it in `inspect`
+   */
+  protected applyPlugin(
+    plugin: (container: this) => void, 
+    name = plugin.name,
+    variant?: string
+  ){
+    const previous = this.activePlugin
+
+    this.activePlugin = name ? { name, variant } : previous
+
+    try {
+      plugin(this)
+    } finally {
+      this.activePlugin = previous
+    }
+  }
+
+  protected createRegistration(
+    provider: Registration['provider'], 
+    scope: Scope, 
+    dispose?: Disposer<Instance>,
+    details: BindingDetails = {}
+  ): Registration<ResultsbyIdentifier> {
+    return {
+      provider, 
+      reference: undefined, 
+      scope, 
+      dispose, 
+      plugin: this.activePlugin.name,
+      variant: this.activePlugin.variant,
+      dependencies: new Set(),
+      resolved: false,
+      ...details
+    }
+  }
+
+  /**
+   * Registers the provider of a `bind` like method, the provider gets 
+   * the container typed with the register the method was called with,
+   * bindings are singletons unless the options tell otherwise
+   */
+  protected registerBinding<Register extends PlainObject>(
+    identifier: Identifier,
+    provider: (ctx: IPreProcessDependencyContainer<Register>) => unknown,
+    { scope = 'singleton', dispose, ...details }: BindingOptions,
+    multi = false
+  ){
+    return this.addRegistration(
+      identifier,
+      this.createRegistration(
+        (ctx) => provider(ctx as IPreProcessDependencyContainer<Register>),
+        scope,
+        dispose,
+        details
+      ),
+      multi
+    )
+  }
+
+  /**
+   * Adds the registration as the binding of the identifier,
+   * or as a contribution to its multi binding
+   */
+  protected addRegistration(
+    identifier: Identifier, 
+    registration: Registration, 
+    multi = false
+  ){
+    if(!multi){
+      this.registry.set(identifier, registration)
+
+      return this;
+    }
+
+    const contributions = this.multiRegistry.get(identifier) ?? []
+
+    contributions.push(registration)
+    this.multiRegistry.set(identifier, contributions)
 
     return this;
   }
 
-  get<T extends keyof ResultsbyIdentifier, R extends boolean>(
+  protected getParentContainer(): PrimitiveContainer<PlainObject> | undefined {
+    return undefined
+  }
+
+  /**
+   * This container followed by its parents
+   */
+  protected getContainerPath(){
+    const path: PrimitiveContainer<PlainObject>[] = []
+    let current: PrimitiveContainer<PlainObject> | undefined = this.origin
+
+    while(current){
+      path.push(current)
+      current = current.getParentContainer()
+    }
+
+    return path
+  }
+
+  protected createNotFoundError(identifier: Identifier): ContainerError {
+    const containerPath = this.getContainerPath()
+
+    return new DependencyNotFoundError(
+      identifier,
+      containerPath,
+      this.resolutionPath.map((frame) => frame.identifier),
+      findSuggestions(
+        identifier, 
+        containerPath.flatMap((container) => [...container.registry.keys()])
+      )
+    )
+  }
+
+  /**
+   * Registers an instance owned by this container, its disposer
+   * runs when the container is disposed
+   * 
+   * Pending instances that end up rejecting are forgotten and `evict`
+   * is called, so failed initialisations are not cached
+   */
+  protected trackInstance(
+    instance: unknown, 
+    dispose?: Disposer<Instance>, 
+    evict?: () => void
+  ){
+    const entry = dispose && { instance, dispose }
+
+    if(entry)
+      this.disposables.push(entry)
+
+    if(isPromiseLike(instance))
+      instance.then(undefined, () => {
+        evict?.()
+
+        if(entry && this.disposables.includes(entry))
+          this.disposables.splice(this.disposables.indexOf(entry), 1)
+      })
+  }
+
+  /**
+   * Looks the registration up in this container and then in its parents
+   */
+  protected findRegistration(
+    identifier: Identifier
+  ): Registration | undefined {
+    return this.registry.get(identifier) 
+      ?? this.getParentContainer()?.findRegistration(identifier)
+  }
+
+  /**
+   * Resolves a registration owned by this container,
+   * caching singletons and scoped instances
+   */
+  protected resolveRegistration(
+    identifier: Identifier, 
+    registration: Registration,
+    meta?: unknown
+  ){
+    // the root container acts as its own scope, so scoped
+    // bindings are cached the same way singletons are
+    const isCached = registration.scope === 'singleton' 
+      || registration.scope === 'scoped'
+
+    // an async instance still running up the path would never settle
+    this.assertNotResolving(identifier)
+
+    if(!isCached)
+      return this.instantiate(identifier, registration, meta)
+
+    if(registration.reference === undefined){
+      const instance = this.instantiate(identifier, registration, meta)
+
+      registration.reference = instance
+      this.trackInstance(instance, registration.dispose, () => {
+        if(registration.reference === instance)
+          registration.reference = undefined
+      })
+    }
+
+    return registration.reference
+  }
+
+  /**
+   * Resolves a scoped registration inherited from a parent, it is
+   * instantiated once per container using this container as context
+   * so its own dependencies are scoped too
+   */
+  protected resolveInScope(
+    identifier: Identifier, 
+    registration: Registration,
+    meta?: unknown
+  ){
+    this.assertNotResolving(identifier)
+
+    if(!this.localReferences.has(registration)){
+      const instance = this.instantiate(identifier, registration, meta)
+
+      this.localReferences.set(registration, instance)
+      this.trackInstance(instance, registration.dispose, () => {
+        if(this.localReferences.get(registration) === instance)
+          this.localReferences.delete(registration)
+      })
+    }
+
+    return this.localReferences.get(registration)
+  }
+
+  /**
+   * Resolves a registration owned by a parent, scoped ones get an instance
+   * per container, others are created and shared by the owner. Decorators
+   * and interceptors of the containers in between wrap the shared instance,
+   * a wrapped singleton is then cached by this container
+   */
+  protected resolveInherited(
+    identifier: Identifier, 
+    registration: Registration,
+    meta?: unknown
+  ){
+    if(registration.scope === 'scoped')
+      return this.resolveInScope(identifier, registration, meta)
+
+    const owner = this.getContainerPath()
+      .find((container) => container !== this.origin && container.owns(identifier, registration))
+    // the owner carries on with the resolution path of this container
+    const resolve = () => owner
+      ?.createView(this.resolutionPath)
+      .resolveRegistration(identifier, registration, meta)
+    const decorators = this.getDecorators(identifier, registration, false)
+    const interceptors = this.getInterceptors(false, owner)
+
+    if(!decorators.length && !interceptors.length)
+      return resolve()
+
+    const wrap = () => this.applyDecorators(
+      this.applyInterceptors(identifier, registration, meta, interceptors, resolve), 
+      decorators
+    )
+
+    if(registration.scope === 'transient')
+      return wrap()
+
+    if(!this.localReferences.has(registration)){
+      const instance = wrap()
+
+      this.localReferences.set(registration, instance)
+      this.trackInstance(instance, undefined, () => {
+        if(this.localReferences.get(registration) === instance)
+          this.localReferences.delete(registration)
+      })
+    }
+
+    return this.localReferences.get(registration)
+  }
+
+  private owns(identifier: Identifier, registration: Registration){
+    return this.registry.get(identifier) === registration
+      || !!this.multiRegistry.get(identifier)?.includes(registration)
+  }
+
+  /**
+   * Multi binding registrations of this container and its parents,
+   * parents first, each one paired with the container owning it
+   */
+  protected findContributions(
+    identifier: Identifier
+  ): { owner: PrimitiveContainer<PlainObject>, registration: Registration }[] {
+    return [
+      ...(this.getParentContainer()?.findContributions(identifier) ?? []),
+      ...(this.multiRegistry.get(identifier) ?? [])
+        .map((registration) => ({ owner: this.origin, registration }))
+    ]
+  }
+
+  bindTo<T extends ServiceIdentifier<ResultsbyIdentifier>>(
+    identifier: T, 
+    provider: (ctx: IPrimitiveContainer<ResultsbyIdentifier>) => ServiceType<ResultsbyIdentifier, T>,
+    scope: Scope = 'transient',
+    dispose?: Disposer<ServiceType<ResultsbyIdentifier, T>>
+  ) {
+    return this.addRegistration(identifier, this.createRegistration(provider, scope, dispose))
+  }
+
+  get<T extends ServiceIdentifier<ResultsbyIdentifier>, R extends boolean>(
     identifier: T, 
-    doNotThrowIIfNull?: R | undefined
-  ):ResultsbyIdentifier[T]{
+    doNotThrowIIfNull?: R | undefined,
+    meta?: unknown
+  ):ServiceType<ResultsbyIdentifier, T>{
     const maybeValue = this.registry.get(identifier)
-    const maybeProvider = maybeValue?.provider;
+
+    this.recordDependency(identifier)
       
-    if(!maybeProvider && !doNotThrowIIfNull)
-      throw new Error(
-        `Could not resolve ${String(identifier)}, did you register it?`
-      )
+    if(!maybeValue && !doNotThrowIIfNull)
+      throw this.createNotFoundError(identifier)
     
-    if(maybeValue?.scope === 'singleton')
-      maybeValue.reference ??= maybeProvider?.(this)
-    
-    return maybeValue?.scope === 'singleton' ? 
-      maybeValue.reference : 
-      maybeProvider?.(this);
+    return maybeValue && this.resolveRegistration(identifier, maybeValue, meta);
+  }
+
+  /**
+   * Adds a middleware around every provider run for identifiers requested 
+   * from this container, inherited ones included, interceptors registered 
+   * first run outermost. Cached instances only go through the interceptors 
+   * once, when they are created, inherited singletons are created by their
+   * owner and the result of wrapping them is cached by this container
+   * 
+   * With `applyToChildren` it also runs for identifiers
+   * requested from child containers and scopes
+   * 
+   * @example
+   * 
+   * container.intercept((ctx, next) => {
+   *   const start = performance.now()
+   *   const instance = next()
+   * 
+   *   console.log(`${String(ctx.identifier)} took ${performance.now() - start}ms`)
+   * 
+   *   return instance
+   * }, { applyToChildren: true })
+   */
+  intercept(
+    interceptor: Interceptor<ResultsbyIdentifier>, 
+    { applyToChildren = false }: InterceptOptions = {}
+  ){
+    this.interceptors.push({ interceptor, applyToChildren })
+
+    return this;
+  }
+
+  /**
+   * Wraps the instances of an identifier whichever binding provides them, 
+   * including bindings inherited from parents or bound after the decorator,
+   * so it survives plugins rebinding the identifier. Decorators added 
+   * later wrap the previous ones and the ones of child containers
+   * wrap the ones of their parents
+   * 
+   * Cached instances are decorated once, when they are created
+   * 
+   * @example
+   * 
+   * container.decorate('api', (api, ctx) => 
+   *   withRetries(api, ctx.get('retryPolicy'))
+   * )
+   */
+  decorate<T extends ServiceIdentifier<ResultsbyIdentifier>>(
+    identifier: T,
+    decorator: Decorator<ResultsbyIdentifier, T>
+  ){
+    this.decorators.set(identifier, [
+      ...(this.decorators.get(identifier) ?? []), 
+      decorator
+    ])
+
+    return this;
+  }
+
+  /**
+   * Shorthand of `intercept` to decorate instances once created,
+   * for async providers the handler receives the resolved value
+   * 
+   * @example
+   * 
+   * container.onActivation((instance, ctx) => 
+   *   ctx.identifier === 'api' ? withLogging(instance) : instance
+   * )
+   */
+  onActivation(
+    handler: (instance: Instance, ctx: ResolutionContext<ResultsbyIdentifier>) => Instance,
+    options?: InterceptOptions
+  ){
+    return this.intercept((ctx, next) => {
+      const instance = next()
+
+      return isPromiseLike(instance) 
+        ? Promise.resolve(instance).then((value) => handler(value, ctx))
+        : handler(instance, ctx)
+    }, options)
+  }
+
+  /**
+   * Adds a contribution to a multi binding, unlike `bindTo` previous
+   * contributions are kept, several plugins can contribute 
+   * to the same identifier
+   * 
+   * @example
+   * 
+   * container
+   *   .bindManyTo('routes', () => usersRoute)
+   *   .bindManyTo('routes', () => ordersRoute)
+   * 
+   * container.getAll('routes') // [usersRoute, ordersRoute]
+   */
+  bindManyTo<T extends ServiceIdentifier<ResultsbyIdentifier>>(
+    identifier: T, 
+    provider: (ctx: IPrimitiveContainer<ResultsbyIdentifier>) => ServiceType<ResultsbyIdentifier, T>,
+    scope: Scope = 'transient',
+    dispose?: Disposer<ServiceType<ResultsbyIdentifier, T>>
+  ) {
+    return this.addRegistration(identifier, this.createRegistration(provider, scope, dispose), true)
+  }
+
+  /**
+   * Resolves every contribution of a multi binding in registration order,
+   * child containers get the contributions of their parents first,
+   * an identifier without contributions resolves to an empty array
+   */
+  getAll<T extends ServiceIdentifier<ResultsbyIdentifier>>(
+    identifier: T
+  ): ServiceType<ResultsbyIdentifier, T>[] {
+    this.recordDependency(identifier)
+
+    return this.findContributions(identifier)
+      .map(({ owner, registration }) => owner === this.origin
+        ? this.resolveRegistration(identifier, registration)
+        : this.resolveInherited(identifier, registration)
+      )
+  }
+
+  /**
+   * Tells whether the identifier is bound without resolving it, multi
+   * bindings included, child containers also look into their parents
+   * unless `local` is set
+   */
+  has(
+    identifier: ServiceIdentifier<ResultsbyIdentifier>, 
+    { local = false }: { local?: boolean } = {}
+  ): boolean {
+    if(local)
+      return this.registry.has(identifier) 
+        || Boolean(this.multiRegistry.get(identifier)?.length)
+
+    return this.findRegistration(identifier) !== undefined
+      || this.findContributions(identifier).length > 0
+  }
+
+  async getAsync<T extends ServiceIdentifier<ResultsbyIdentifier>>(
+    identifier: T
+  ): Promise<Awaited<ServiceType<ResultsbyIdentifier, T>>>{
+    if(!this.has(identifier))
+      await this.loadProvider(identifier)
+
+    return this.get(identifier) as Awaited<ServiceType<ResultsbyIdentifier, T>>
   }
 
-  unbind(identifier: keyof ResultsbyIdentifier): this {
+  /**
+   * Called by `getAsync` for identifiers not bound yet, containers
+   * with lazy plugins load the ones providing it
+   */
+  protected loadProvider(_identifier: Identifier): Promise<void> | void {}
+
+  /**
+   * Removes the binding, if it has a cached instance with a disposer
+   * the disposer is started right away, its outcome is reported
+   * by the next `dispose` call
+   */
+  unbind(identifier: ServiceIdentifier<ResultsbyIdentifier>): this {
+    const registrations = [
+      this.registry.get(identifier),
+      ...(this.multiRegistry.get(identifier) ?? [])
+    ]
+
     this.registry.delete(identifier);
+    this.multiRegistry.delete(identifier);
+
+    registrations.forEach((registration) => {
+      const index = this.disposables
+        .findIndex(({ instance }) => instance === registration?.reference)
+
+      if(registration?.reference === undefined || index === -1)
+        return
+
+      this.disposeLater(...this.disposables.splice(index, 1))
+    })
     
     return this;
   }
+
+  /**
+   * Starts disposing instances without waiting for them,
+   * failures are reported by the next `dispose` call
+   */
+  private disposeLater(...entries: DisposableEntry[]){
+    entries.forEach(({ instance, dispose }) => {
+      this.pendingDisposals.push(
+        Promise.resolve()
+          .then(() => dispose(instance))
+          .then(() => undefined, (error: unknown) => ({ error }))
+      )
+    })
+  }
+
+  /**
+   * Captures the bindings, decorators, interceptors and cached 
+   * instances of this container, `restore` puts them back
+   * 
+   * @example
+   * 
+   * const token = container.snapshot()
+   * 
+   * container.bindTo('api', () => fakeApi)
+   * 
+   * container.restore(token)
+   */
+  snapshot(): ContainerSnapshot {
+    const token: ContainerSnapshot = Object.freeze({})
+    const withReference = (registration: Registration) => 
+      [registration, registration.reference] as [Registration, unknown]
+
+    this.snapshots.set(token, {
+      registry: [...this.registry].map(([identifier, registration]) => 
+        [identifier, ...withReference(registration)]
+      ),
+      multiRegistry: [...this.multiRegistry].map(([identifier, contributions]) => 
+        [identifier, contributions.map(withReference)]
+      ),
+      localReferences: new Map(this.localReferences),
+      disposables: [...this.disposables],
+      decorators: new Map(this.decorators),
+      interceptors: [...this.interceptors]
+    })
+
+    return token
+  }
+
+  /**
+   * Puts the container back to the state captured by `snapshot`, instances 
+   * created since then are forgotten and their disposers started, 
+   * failures are reported by the next `dispose` call. A token 
+   * can be restored several times
+   */
+  restore(token: ContainerSnapshot): this {
+    const state = this.snapshots.get(token)
+
+    if(!state)
+      throw new Error('The snapshot was not taken from this container')
+
+    const current = new Set(this.disposables)
+    const kept = state.disposables.filter((entry) => current.has(entry))
+    const created = this.disposables.filter((entry) => !kept.includes(entry))
+    const alive = new Set(kept.map(({ instance }) => instance))
+    // instances disposed since the snapshot can not be handed out again
+    const restoreReference = ([registration, reference]: [Registration, unknown]) => {
+      registration.reference = registration.dispose && !alive.has(reference) 
+        ? undefined 
+        : reference
+
+      return registration
+    }
+
+    this.disposeLater(...created.reverse())
+    this.disposables = kept
+    this.registry.clear()
+    state.registry.forEach(([identifier, ...entry]) => {
+      this.registry.set(identifier, restoreReference(entry))
+    })
+    this.multiRegistry = new Map(state.multiRegistry.map(([identifier, contributions]) => 
+      [identifier, contributions.map(restoreReference)]
+    ))
+    this.localReferences = new Map([...state.localReferences].filter(([registration, instance]) => 
+      !registration.dispose || alive.has(instance)
+    ))
+    this.decorators = new Map(state.decorators)
+    this.interceptors = [...state.interceptors]
+
+    return this;
+  }
+
+  private forgetInstances(){
+    const forget = (registration: Registration) => { registration.reference = undefined }
+
+    this.registry.forEach(forget)
+    this.multiRegistry.forEach((contributions) => { contributions.forEach(forget) })
+    this.localReferences.clear()
+  }
+
+  /**
+   * Runs `fn` with the given instances bound as singletons, the container
+   * is restored once it finishes, after the returned promise settles
+   * when it is async. Cached instances are set aside meanwhile so the
+   * ones depending on an override are created again with it
+   * 
+   * @example
+   * 
+   * it('shows the user', () => appContainer.withOverrides(
+   *   { api: fakeApi },
+   *   (container) => {
+   *     expect(container.get('userService').current()).toBe(fakeUser)
+   *   }
+   * ))
+   */
+  withOverrides<Result>(
+    overrides: Partial<ResultsbyIdentifier>,
+    fn: (container: this) => Result
+  ): Result {
+    const token = this.snapshot()
+    const identifiers = Reflect.ownKeys(overrides) as (keyof ResultsbyIdentifier)[]
+
+    // restoring the snapshot puts the cached instances back
+    this.forgetInstances()
+    identifiers.forEach((identifier) => {
+      this.bindTo(identifier, () => overrides[identifier] as ResultsbyIdentifier[typeof identifier], 'singleton')
+    })
+
+    let result: Result
+
+    try {
+      result = fn(this)
+    } catch (error) {
+      this.restore(token)
+
+      throw error
+    }
+
+    if(!isPromiseLike(result)){
+      this.restore(token)
+
+      return result
+    }
+
+    return Promise.resolve(result).finally(() => {
+      this.restore(token)
+    }) as Result
+  }
+
+  /**
+   * Disposes child containers first and then the instances created by
+   * this container in reverse creation order, every disposer runs even
+   * if a previous one fails, failures are reported together
+   * in an `AggregateError`
+   * 
+   * Transient instances are not tracked, they belong to whoever
+   * requested them
+   * 
+   * @example
+   * 
+   * container.bind('db', {
+   *   provider: () => createConnection(),
+   *   dispose: (db) => db.close()
+   * })
+   * 
+   * await container.dispose()
+   */
+  async dispose(): Promise<void> {
+    const errors: unknown[] = []
+    const collect = (error: unknown) => {
+      errors.push(...(error instanceof AggregateError ? error.errors : [error]))
+    }
+
+    for(const ref of [...this.children].reverse()){
+      await ref.deref()?.dispose().catch(collect)
+    }
+
+    for(const { instance, dispose } of this.disposables.splice(0).reverse()){
+      try {
+        await dispose(instance)
+      } catch (error) {
+        collect(error)
+      }
+    }
+
+    for(const result of await Promise.all(this.pendingDisposals.splice(0))){
+      if(result)
+        collect(result.error)
+    }
+
+    this.localReferences.clear()
+    this.registry.forEach((registration) => {
+      registration.reference = undefined
+    })
+    this.multiRegistry.forEach((contributions) => {
+      contributions.forEach((registration) => {
+        registration.reference = undefined
+      })
+    })
+
+    if(errors.length)
+      throw new AggregateError(
+        errors, 
+        `Failed to dispose ${errors.length} instance(s)`
+      )
+  }
+
+  /**
+   * Same as `dispose`, keyed by `Symbol.asyncDispose` where the runtime has it
+   */
+  [asyncDispose](): Promise<void> {
+    return this.dispose()
+  }
+
+  /**
+   * Describes the bindings visible from this container, including the
+   * ones inherited from parents, as a serialisable graph. Edges are 
+   * discovered while resolving, so they only include providers
+   * that already ran
+   * 
+   * @example
+   * 
+   * container.get('app')
+   * 
+   * console.log(toMermaid(container.inspect()))
+   */
+  inspect(): ContainerGraph {
+    const nodes: ContainerGraphNode[] = []
+    const edges = new Map<string, ContainerGraphEdge>()
+
+    this.getVisibleBindings().forEach(({ identifier, registrations, level, multi }) => {
+      const [first] = registrations
+
+      nodes.push({
+        identifier: String(identifier),
+        scope: first.scope,
+        container: level,
+        plugin: first.plugin,
+        variant: first.variant,
+        multi,
+        contributions: registrations.length,
+        resolved: registrations.some(({ resolved }) => resolved)
+      })
+
+      registrations.forEach(({ dependencies }) => {
+        dependencies.forEach((dependency) => {
+          const edge = { from: String(identifier), to: String(dependency) }
+
+          edges.set(`${edge.from}->${edge.to}`, edge)
+        })
+      })
+    })
+
+    return { nodes, edges: [...edges.values()] }
+  }
+
+  /**
+   * Bindings of this container and its parents, the ones shadowed by
+   * a child are left out while multi bindings are kept per container
+   */
+  private getVisibleBindings(): VisibleBinding[] {
+    const bindings: VisibleBinding[] = []
+    const shadowed = new Set<Identifier>()
+
+    this.getContainerPath().forEach((owner, level) => {
+      owner.registry.forEach((registration, identifier) => {
+        if(shadowed.has(identifier))
+          return
+
+        shadowed.add(identifier)
+        bindings.push({ identifier, registrations: [registration], owner, level, multi: false })
+      })
+
+      owner.multiRegistry.forEach((contributions, identifier) => {
+        if(contributions.length)
+          bindings.push({ identifier, registrations: contributions, owner, level, multi: true })
+      })
+    })
+
+    return bindings
+  }
+
+  /**
+   * Identifiers the registration depends on, from its dry run and from
+   * what its provider requested when it ran. A dry run requests the
+   * dependencies without resolving them, so resolvers using what they 
+   * get stop there. Dependencies only known from a run are optional,
+   * the provider may request them conditionally
+   */
+  private discoverDependencies(registration: Registration){
+    const discovered = new Map<Identifier, DiscoveredDependency>()
+    const discover = (identifier: Identifier, optional: boolean, multi = false) => {
+      const previous = discovered.get(identifier)
+
+      discovered.set(identifier, {
+        optional: optional && (previous?.optional ?? true),
+        multi: multi || !!previous?.multi
+      })
+    }
+
+    registration.dependencies.forEach((identifier) => {
+      discover(identifier, true)
+    })
+
+    if(!registration.dryRun)
+      return discovered
+
+    const recorder: IPrimitiveContainer<PlainObject> = Object.assign(Object.create(this), {
+      get: (identifier: Identifier, doNotThrowIfNull?: boolean) => {
+        discover(identifier, !!doNotThrowIfNull)
+      },
+      getAsync: async (identifier: Identifier) => {
+        discover(identifier, false)
+      },
+      getAll: (identifier: Identifier) => {
+        discover(identifier, true, true)
+
+        return []
+      }
+    })
+
+    try {
+      const result = registration.dryRun(recorder)
+
+      if(isPromiseLike(result))
+        result.then(undefined, () => undefined)
+    } catch {
+      // dependencies requested before failing are already discovered
+    }
+
+    return discovered
+  }
+
+  /**
+   * Checks the bindings visible from this container without running
+   * their providers: dependencies that are not bound, singletons 
+   * capturing transient or scoped bindings and cycles. Dependencies
+   * come from `resolveDependencies` and the `inject` of classes,
+   * and from what providers requested if they already ran
+   * 
+   * @example
+   * 
+   * it('wires the app', () => {
+   *   expect(createAppContainer().validate()).toEqual([])
+   * })
+   */
+  validate(): ValidationIssue[] {
+    const issues: ValidationIssue[] = []
+    const graph = new Map<Identifier, Set<Identifier>>()
+
+    this.getVisibleBindings().forEach(({ identifier, registrations, owner }) => {
+      registrations.forEach((registration) => {
+        // scoped bindings are resolved by the container requesting them
+        const context: PrimitiveContainer<PlainObject> = registration.scope === 'scoped' ? this : owner
+        
+        context.discoverDependencies(registration).forEach(({ optional, multi }, dependency) => {
+          const candidates = multi
+            ? context.findContributions(dependency).map((contribution) => contribution.registration)
+            : [context.findRegistration(dependency)].filter((found) => found !== undefined)
+          const captured = candidates.find(({ scope }) => scope !== 'singleton')
+
+          graph.set(identifier, (graph.get(identifier) ?? new Set()).add(dependency))
+
+          if(!candidates.length && !optional && !multi)
+            issues.push({
+              type: 'missing',
+              identifier,
+              path: [identifier, dependency],
+              message: `${String(identifier)} depends on ${String(dependency)} which is not bound`
+            })
+
+          if(registration.scope === 'singleton' && captured)
+            issues.push({
+              type: 'captive',
+              identifier,
+              path: [identifier, dependency],
+              message: `The singleton ${String(identifier)} captures the ${captured.scope} ${String(dependency)}`
+            })
+        })
+      })
+    })
+
+    findCycles(graph).forEach((path) => {
+      issues.push({
+        type: 'cycle',
+        identifier: path[0],
+        path,
+        message: `Circular dependency detected: ${path.map(String).join(' -> ')}`
+      })
+    })
+
+    return issues
+  }
+
+  /**
+   * Creates the singletons visible from this container one after the 
+   * other, waiting for async ones, so failures surface at startup.
+   * With `tags` only the bindings with matching tags are created
+   * 
+   * @example
+   * 
+   * const timings = await container.warmUp({ tags: ['startup'] })
+   * 
+   * timings.forEach(({ identifier, duration }) => 
+   *   console.log(`${String(identifier)} took ${duration}ms`)
+   * )
+   */
+  async warmUp({ tags }: WarmUpOptions = {}): Promise<WarmUpTiming[]> {
+    const predicates = tags?.map((expression) => parseTagExpression(expression).matches)
+    const isSelected = (registration: Registration) => registration.scope === 'singleton'
+      && (!predicates || predicates.some((matches) => matches(new Set(registration.tags))))
+    const timings: WarmUpTiming[] = []
+
+    for(const { identifier, registrations, owner } of this.getVisibleBindings()){
+      for(const registration of registrations.filter(isSelected)){
+        const start = performance.now()
+
+        await (owner === this.origin 
+          ? this.resolveRegistration(identifier, registration)
+          : this.resolveInherited(identifier, registration))
+
+        timings.push({ identifier, duration: performance.now() - start })
+      }
+    }
+
+    return timings
+  }
+
+  /**
+   * Creates a lightweight child container without bindings of its own,
+   * singletons keep being shared with this container while `scoped`
+   * bindings get one instance per created scope
+   * 
+   * @example
+   * 
+   * container.bindTo('logger', () => new Logger(), 'scoped')
+   * 
+   * const requestScope = container.createScope()
+   * 
+   * requestScope.get('logger') === requestScope.get('logger') // true
+   * requestScope.get('logger') === container.createScope().get('logger') // false
+   */
+  createScope(): ChildPrimitiveContainer<ResultsbyIdentifier, ResultsbyIdentifier>{
+    return new ChildPrimitiveContainer(this)
+  }
 }
 
 
@@ -67,15 +1258,74 @@ export class ChildPrimitiveContainer <
 {
   constructor(private parent?: PrimitiveContainer<ParentResultsByIdentfier>){
     super();
+
+    this.attachToParent()
+  }
+
+  protected override getParentContainer(){
+    return this.parent
   }
 
-  override get<T extends keyof (OwnResultsbyIdentifier & ParentResultsByIdentfier), R extends boolean>(
-    identifier: T, doNotThrowIIfNull?: R | undefined): (OwnResultsbyIdentifier & ParentResultsByIdentfier)[T] {
-    const maybeInstance = super.get(identifier, true) ?? this.parent?.get(identifier, true);
+  override get<T extends ServiceIdentifier<OwnResultsbyIdentifier & ParentResultsByIdentfier>, R extends boolean>(
+    identifier: T, doNotThrowIIfNull?: R | undefined, meta?: unknown): ServiceType<OwnResultsbyIdentifier & ParentResultsByIdentfier, T> {
+    this.recordDependency(identifier)
+
+    // lookups are based on registration, not on the resolved value,
+    // so falsy values never fall through to the parent
+    if(this.registry.has(identifier))
+      return super.get(identifier, false, meta)
+
+    const inheritedRegistration = this.findRegistration(identifier)
+
+    if(inheritedRegistration)
+      return this.resolveInherited(identifier, inheritedRegistration, meta)
+
+    if(!doNotThrowIIfNull)
+      throw this.createNotFoundError(identifier)
+
+    return undefined as ServiceType<OwnResultsbyIdentifier & ParentResultsByIdentfier, T>
+  }
+
+  override has(
+    identifier: ServiceIdentifier<OwnResultsbyIdentifier & ParentResultsByIdentfier>, 
+    options?: { local?: boolean }
+  ): boolean {
+    return super.has(identifier, options)
+  }
+
+  override decorate<T extends ServiceIdentifier<OwnResultsbyIdentifier & ParentResultsByIdentfier>>(
+    identifier: T,
+    decorator: Decorator<OwnResultsbyIdentifier & ParentResultsByIdentfier, T>
+  ){
+    return super.decorate(identifier, decorator)
+  }
+
+  override withOverrides<Result>(
+    overrides: Partial<OwnResultsbyIdentifier & ParentResultsByIdentfier>,
+    fn: (container: this) => Result
+  ): Result {
+    return super.withOverrides(overrides as Partial<OwnResultsbyIdentifier>, fn)
+  }
+
+  override getAll<T extends ServiceIdentifier<OwnResultsbyIdentifier & ParentResultsByIdentfier>>(
+    identifier: T
+  ): ServiceType<OwnResultsbyIdentifier & ParentResultsByIdentfier, T>[] {
+    return super.getAll(identifier)
+  }
+
+  override async getAsync<T extends ServiceIdentifier<OwnResultsbyIdentifier & ParentResultsByIdentfier>>(
+    identifier: T
+  ): Promise<Awaited<ServiceType<OwnResultsbyIdentifier & ParentResultsByIdentfier, T>>>{
+    return super.getAsync(identifier)
+  }
 
-    if(!doNotThrowIIfNull && !maybeInstance)
-      throw new Error(`Not found ${String(identifier)}`)
+  /**
+   * Besides disposing its own instances, the child detaches from its
+   * parent so disposing the parent does not dispose it again
+   */
+  override async dispose(): Promise<void> {
+    this.detachFromParent()
 
-    return maybeInstance!
+    await super.dispose()
   }
 } 
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { DependencyNotFoundError } from './errors';
+import {
+  createAutoResolver,
+  PreProcessDependencyContainer,
+} from './pre-process-dependency-container';
+import { createToken, isToken } from './tokens';
+
+interface Logger {
+  log: (message: string) => string;
+}
+interface Http {
+  baseUrl: string;
+}
+
+const loggerToken = createToken<Logger>('logger');
+const httpToken = createToken<Http, 'http'>('http');
+const dbToken = createToken<Promise<{ url: string }>>('db');
+
+describe('createToken', () => {
+  it('creates a different identifier on every call', () => {
+    expect(createToken<Logger>('logger')).not.toBe(loggerToken);
+    expect(loggerToken.description).toBe('logger');
+  });
+
+  it('tells tokens apart from plain symbols', () => {
+    expect(isToken(loggerToken)).toBe(true);
+    expect(isToken(Symbol('logger'))).toBe(false);
+    expect(isToken('logger')).toBe(false);
+  });
+});
+
+describe('tokens in containers', () => {
+  it('binds and resolves tokens without a register', () => {
+    const container = new PreProcessDependencyContainer()
+      .bindTo(loggerToken, () => ({ log: (message) => message }), 'singleton')
+      .bind(httpToken, { provider: () => ({ baseUrl: '/api' }) });
+
+    const logger: Logger = container.get(loggerToken);
+
+    expect(logger.log('hi')).toBe('hi');
+    expect(container.get(httpToken).baseUrl).toBe('/api');
+    expect(container.has(loggerToken)).toBe(true);
+  });
+
+  it('mixes tokens with keys of the register', () => {
+    const container = new PreProcessDependencyContainer<{ prefix: string }>()
+      .bindTo('prefix', () => '[app]')
+      .bindTo(loggerToken, (ctx) => ({
+        log: (message) => `${ctx.get('prefix')} ${message}`,
+      }));
+
+    expect(container.createScope().get(loggerToken).log('hi')).toBe('[app] hi');
+  });
+
+  it('keys tokens by name in createAutoResolver', () => {
+    type Reg = { prefix: string; usersUrl: string };
+
+    const container = new PreProcessDependencyContainer<Reg>()
+      .bindTo('prefix', () => '/v1')
+      .bindTo(httpToken, () => ({ baseUrl: '/api' }))
+      .bind('usersUrl', {
+        resolveDependencies: createAutoResolver<
+          Reg,
+          typeof httpToken | 'prefix'
+        >([{ identifier: httpToken }, { identifier: 'prefix' }]),
+        provider: ({ http, prefix }) => `${http.baseUrl}${prefix}/users`,
+      });
+
+    expect(container.get('usersUrl')).toBe('/api/v1/users');
+  });
+
+  it('binds tokens of promises asynchronously', async () => {
+    const container = new PreProcessDependencyContainer().bindAsync(dbToken, {
+      provider: async () => ({ url: 'db://test' }),
+    });
+
+    expect((await container.getAsync(dbToken)).url).toBe('db://test');
+  });
+
+  it('names the token when it is not bound', () => {
+    const container = new PreProcessDependencyContainer();
+
+    expect(() => container.get(loggerToken)).toThrow(DependencyNotFoundError);
+    expect(() => container.get(loggerToken)).toThrow(
+      'Could not resolve Symbol(logger)',
+    );
+  });
+
+  it('checks providers against the token type', () => {
+    const container = new PreProcessDependencyContainer<{ prefix: string }>();
+
+    // @ts-expect-error a logger is expected
+    container.bindTo(loggerToken, () => ({ baseUrl: '/api' }));
+    // @ts-expect-error only tokens of promises can be bound async
+    container.bindAsync(httpToken, {
+      provider: async () => ({ baseUrl: '/api' }),
+    });
+
+    expect(container.has(loggerToken)).toBe(true);
+  });
+});
@@ -0,0 +1,31 @@
+import type { Identifier, Token } from './types';
+
+// symbols created by createToken, plain symbol keys are left as they are
+const tokens = new Set<symbol>();
+
+/**
+ * Creates an identifier carrying the type of its service, it can be bound
+ * and resolved without being declared in the register of the container.
+ * Every call creates a different token, the name shows up in errors
+ * and `inspect` and keys the token in `createAutoResolver`
+ *
+ * @example
+ *
+ * export const loggerToken = createToken<Logger>('logger')
+ *
+ * container.bindTo(loggerToken, () => new ConsoleLogger())
+ * container.get(loggerToken) // Logger
+ *
+ * // also types the key given by createAutoResolver
+ * export const httpToken = createToken<Http, 'http'>('http')
+ */
+export const createToken = <T, Name extends string = string>(name: Name) => {
+  const token = Symbol(name);
+
+  tokens.add(token);
+
+  return token as Token<T, Name>;
+};
+
+export const isToken = (identifier: Identifier): identifier is Token<unknown> =>
+  typeof identifier === 'symbol' && tokens.has(identifier);
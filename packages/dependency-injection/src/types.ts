@@ -2,51 +2,554 @@ export type Identifier = string | symbol | number
 
 export type PlainObject = Record<Identifier, any>
 
-export type Scope = 'singleton' | 'transient'
+declare const tokenType: unique symbol
+
+/**
+ * Identifier carrying the type of its service, see `createToken`.
+ * `Name` only types the key `createAutoResolver` gives it
+ */
+export type Token<T, Name extends string = string> = symbol & { 
+  readonly [tokenType]: { type: T, name: Name } 
+}
+
+/**
+ * What a container accepts as identifier, 
+ * keys of its register or typed tokens
+ */
+export type ServiceIdentifier<ResultsByIdentifier extends PlainObject> = 
+  | keyof ResultsByIdentifier 
+  | Token<any>
+
+/**
+ * Type of the service behind an identifier, tokens carry their own
+ */
+export type ServiceType<
+  ResultsByIdentifier extends PlainObject, 
+  Key
+> = Key extends Token<infer T> 
+  ? T 
+  : Key extends keyof ResultsByIdentifier 
+    ? ResultsByIdentifier[Key] 
+    : never
+
+/**
+ * - `singleton`: one instance for the container that registered the binding
+ * - `transient`: a new instance on every `get`
+ * - `scoped`: one instance per scope (child container), the root container
+ * acts as its own scope
+ */
+export type Scope = 'singleton' | 'transient' | 'scoped'
+
+/**
+ * Cleanup callback for instances cached by a container,
+ * it can be async, the container awaits it on `dispose`
+ */
+export type Disposer<T> = (instance: T) => void | Promise<void>
 
 export type ProviderFn<
   ResultsByIdentifier extends PlainObject, 
-  Key extends keyof ResultsByIdentifier
-> =  (ctx: IPrimitiveContainer<ResultsByIdentifier>)=>ResultsByIdentifier[Key]
+  Key extends ServiceIdentifier<ResultsByIdentifier>
+> =  (ctx: IPrimitiveContainer<ResultsByIdentifier>)=>ServiceType<ResultsByIdentifier, Key>
+
+
+
+/**
+ * Identifiers registered with a promise type, those are
+ * the ones that can be bound with `bindAsync`
+ * 
+ * @example
+ * 
+ * interface Register {
+ *   config: Config
+ *   db: Promise<Db>
+ * }
+ * 
+ * // 'db'
+ * type Only = AsyncIdentifiers<Register>
+ */
+export type AsyncIdentifiers<ResultsByIdentifier extends PlainObject> = {
+  [K in keyof ResultsByIdentifier]: ResultsByIdentifier[K] extends PromiseLike<any> ? K : never
+}[keyof ResultsByIdentifier] | Token<PromiseLike<any>>
+
+export type SyncIdentifiers<ResultsByIdentifier extends PlainObject> = Exclude<
+  keyof ResultsByIdentifier, 
+  AsyncIdentifiers<ResultsByIdentifier>
+>
+
+/**
+ * Register of a container, `unknown` for an empty one
+ */
+export type RegisterOf<Container> = Container extends IPrimitiveContainer<infer Register> 
+  ? Register 
+  : never
 
+type UnionToIntersection<U> = (U extends unknown ? (u: U) => void : never) extends (i: infer I) => void 
+  ? I 
+  : never
 
+// untyped plugins add nothing
+type PluginRegister<Plugin> = Plugin extends (container: infer Container) => unknown
+  ? 0 extends (1 & Container) ? unknown : RegisterOf<Container>
+  : unknown
+
+/**
+ * Services added by plugins, a plugin adds the register of
+ * the container it receives
+ * 
+ * @example
+ * 
+ * const loggerPlugin = (c: IPrimitiveContainer<{ logger: Logger }>) => { 
+ *   c.bindTo('logger', () => new Logger())
+ * }
+ * 
+ * // { logger: Logger }
+ * type Added = PluginsRegister<[typeof loggerPlugin]>
+ */
+export type PluginsRegister<Plugins extends unknown[]> = UnionToIntersection<{ 
+  [I in keyof Plugins]: PluginRegister<Plugins[I]> 
+}[number]>
 
+/**
+ * Container returned by `use`, it keeps the concrete container
+ * and knows the services of the register `T`
+ */
 export type ContainerWithPlugins<
   T extends PlainObject, 
-  ContainerType extends IPrimitiveContainer<T>
-> = ContainerType & {
-  use(
-    ...handlers: ((container: ContainerType)=>ContainerType)[]
-  ): ContainerWithPlugins<T, ContainerType>;
+  ContainerType extends IPrimitiveContainer<any>
+> = ContainerType & IPrimitiveContainer<T>
+
+/**
+ * What is being resolved when an interceptor runs
+ */
+export interface ResolutionContext<ResultsByIdentifier extends PlainObject> {
+  identifier: ServiceIdentifier<ResultsByIdentifier>;
+  scope: Scope;
+  /**
+   * Sub plugin, like `mock`, of the plugin that bound the identifier 
+   * when one was chosen
+   */
+  variant?: string;
+  /**
+   * Meta passed to `get`
+   */
+  meta?: any;
+  /**
+   * Container running the provider
+   */
+  container: IPrimitiveContainer<ResultsByIdentifier>;
+}
+
+/**
+ * Middleware around a provider, `next` runs the remaining interceptors
+ * and the provider, whatever it returns is used as the instance
+ */
+export type Interceptor<ResultsByIdentifier extends PlainObject> = (
+  ctx: ResolutionContext<ResultsByIdentifier>, 
+  next: () => any
+) => any
+
+/**
+ * Wraps the instance of an identifier, receives whatever the binding 
+ * or the previous decorators produced and returns its replacement
+ */
+export type Decorator<
+  ResultsByIdentifier extends PlainObject,
+  Key extends ServiceIdentifier<ResultsByIdentifier>
+> = (
+  original: ServiceType<ResultsByIdentifier, Key>,
+  ctx: IPrimitiveContainer<ResultsByIdentifier>
+) => ServiceType<ResultsByIdentifier, Key>
+
+declare const snapshotBrand: unique symbol
+
+/**
+ * Opaque token returned by `snapshot`, only the 
+ * container that created it can restore it
+ */
+export type ContainerSnapshot = { readonly [snapshotBrand]?: never }
+
+export interface InterceptOptions {
+  /**
+   * Also run for providers run by child containers and scopes
+   */
+  applyToChildren?: boolean;
 }
 
 export interface IPrimitiveContainer<ResultsByIdentifier extends PlainObject >{
-  bindTo<Identifier extends keyof ResultsByIdentifier>(
+  bindTo<Identifier extends ServiceIdentifier<ResultsByIdentifier>>(
     identifier: Identifier, 
     provider: ProviderFn<ResultsByIdentifier, Identifier>,
-    scope?: Scope
+    scope?: Scope,
+    dispose?: Disposer<ServiceType<ResultsByIdentifier, Identifier>>
   ): this;
-  get<Identifier extends keyof ResultsByIdentifier, R extends boolean = false>(
+  get<Identifier extends ServiceIdentifier<ResultsByIdentifier>, R extends boolean = false>(
     identifier: Identifier, 
     doNotThrowIfNull?: R,
     meta?: any
-  ): R extends true ? ResultsByIdentifier[Identifier] | undefined : ResultsByIdentifier[Identifier];
-  unbind(identifier: keyof ResultsByIdentifier): this;
+  ): R extends true ? ServiceType<ResultsByIdentifier, Identifier> | undefined : ServiceType<ResultsByIdentifier, Identifier>;
+  /**
+   * Tells whether the identifier is bound without resolving it,
+   * with `local` child containers ignore their parents
+   */
+  has(
+    identifier: ServiceIdentifier<ResultsByIdentifier>, 
+    options?: { local?: boolean }
+  ): boolean;
+  /**
+   * Same as `get` but always returns a promise, async bindings
+   * resolve to their value and sync ones are wrapped
+   */
+  getAsync<Identifier extends ServiceIdentifier<ResultsByIdentifier>>(
+    identifier: Identifier
+  ): Promise<Awaited<ServiceType<ResultsByIdentifier, Identifier>>>;
+  /**
+   * Adds a contribution to a multi binding, 
+   * previous contributions are kept
+   */
+  bindManyTo<Identifier extends ServiceIdentifier<ResultsByIdentifier>>(
+    identifier: Identifier, 
+    provider: ProviderFn<ResultsByIdentifier, Identifier>,
+    scope?: Scope,
+    dispose?: Disposer<ServiceType<ResultsByIdentifier, Identifier>>
+  ): this;
+  /**
+   * Resolves every contribution of a multi binding in registration order
+   */
+  getAll<Identifier extends ServiceIdentifier<ResultsByIdentifier>>(
+    identifier: Identifier
+  ): ServiceType<ResultsByIdentifier, Identifier>[];
+  unbind(identifier: ServiceIdentifier<ResultsByIdentifier>): this;
+  /**
+   * Adds a middleware around every provider run by the container
+   */
+  intercept(
+    interceptor: Interceptor<ResultsByIdentifier>, 
+    options?: InterceptOptions
+  ): this;
+  /**
+   * Wraps the instances of an identifier, whichever binding 
+   * provides them, decorators added later wrap the previous ones
+   */
+  decorate<Identifier extends ServiceIdentifier<ResultsByIdentifier>>(
+    identifier: Identifier,
+    decorator: Decorator<ResultsByIdentifier, Identifier>
+  ): this;
+  /**
+   * Captures bindings and cached instances so `restore` can put them back
+   */
+  snapshot(): ContainerSnapshot;
+  restore(snapshot: ContainerSnapshot): this;
+  /**
+   * Runs `fn` with the given instances bound and restores the container after
+   */
+  withOverrides<Result>(
+    overrides: Partial<ResultsByIdentifier>,
+    fn: (container: this) => Result
+  ): Result;
+  /**
+   * Describes the visible bindings and the dependencies
+   * discovered while resolving them
+   */
+  inspect(): ContainerGraph;
+  validate(): ValidationIssue[];
+  warmUp(options?: WarmUpOptions): Promise<WarmUpTiming[]>;
+  dispose(): Promise<void>;
 }
 
 
+/**
+ * A binding visible from an inspected container
+ */
+export interface ContainerGraphNode {
+  identifier: string;
+  scope: Scope;
+  /**
+   * Where the binding lives, 0 is the inspected container,
+   * 1 its parent and so on
+   */
+  container: number;
+  /**
+   * Name of the plugin that registered the binding
+   */
+  plugin?: string;
+  /**
+   * Sub plugin chosen for that plugin, like `mock` or a profile name
+   */
+  variant?: string;
+  multi: boolean;
+  /**
+   * Number of providers, only multi bindings have more than one
+   */
+  contributions: number;
+  /**
+   * Whether any of its providers already ran
+   */
+  resolved: boolean;
+}
+
+export interface ContainerGraphEdge {
+  from: string;
+  to: string;
+}
+
+/**
+ * Serialisable description of a container, see `toDot` and `toMermaid`
+ */
+export interface ContainerGraph {
+  nodes: ContainerGraphNode[];
+  edges: ContainerGraphEdge[];
+}
+
+/**
+ * Problem found by `validate`
+ * 
+ * - `missing`: a required dependency is not bound
+ * - `captive`: a singleton depends on a transient or scoped binding,
+ * which would live as long as the singleton
+ * - `cycle`: bindings depend on each other
+ */
+export interface ValidationIssue {
+  type: 'missing' | 'captive' | 'cycle';
+  /**
+   * Binding where the problem was found
+   */
+  identifier: Identifier;
+  /**
+   * From the binding to the faulty dependency, 
+   * for cycles back to the binding
+   */
+  path: Identifier[];
+  message: string;
+}
+
+export interface WarmUpOptions {
+  /**
+   * Tag expressions, like `'startup && !slow'`, only singletons
+   * bound with tags matching one of them are created
+   */
+  tags?: string[];
+}
+
+export interface WarmUpTiming {
+  identifier: Identifier;
+  /**
+   * Milliseconds it took to create the singleton, async ones until
+   * they settle. Dependencies created on the way are included
+   */
+  duration: number;
+}
+
 export interface BindOptions<
   Register extends PlainObject, 
-  T extends keyof Register, 
+  T extends ServiceIdentifier<Register>, 
   M = unknown, 
   Meta = any
 >{
-  scope?: 'transient' | 'singleton';
+  scope?: Scope;
+  /**
+   * Selects the binding in `warmUp`
+   */
+  tags?: string[];
   resolveDependencies?: (ctx: IPreProcessDependencyContainer<Register>, meta?: Meta)=> M
-  provider: (resolvedDeps: M, ctx: IPreProcessDependencyContainer<Register>, meta?: Meta)=>Register[T];
+  provider(resolvedDeps: M, ctx: IPreProcessDependencyContainer<Register>, meta?: Meta): ServiceType<Register, T>;
+  /**
+   * Runs when the container owning the cached instance is disposed,
+   * transient instances are not tracked
+   */
+  dispose?: Disposer<ServiceType<Register, T>>;
+  meta?: Meta
+}
+
+export interface AsyncBindOptions<
+  Register extends PlainObject, 
+  T extends ServiceIdentifier<Register>, 
+  M = unknown, 
+  Meta = any
+>{
+  scope?: Scope;
+  /**
+   * Selects the binding in `warmUp`
+   */
+  tags?: string[];
+  resolveDependencies?: (ctx: IPreProcessDependencyContainer<Register>, meta?: Meta)=> M | Promise<M>
+  provider(
+    resolvedDeps: M, 
+    ctx: IPreProcessDependencyContainer<Register>, 
+    meta?: Meta
+  ): Awaited<ServiceType<Register, T>> | Promise<Awaited<ServiceType<Register, T>>>;
+  /**
+   * Receives the resolved value, it is skipped 
+   * if the initialisation failed
+   */
+  dispose?: Disposer<Awaited<ServiceType<Register, T>>>;
   meta?: Meta
 }
 
+/**
+ * How `createAutoResolver` and `createAutoResolveDepsInOrder` 
+ * resolve a dependency
+ */
+export interface DependencySpec<Key = ServiceIdentifier<PlainObject>> {
+  identifier: Key;
+  /**
+   * Property of the dependency in the object built by `createAutoResolver`,
+   * the identifier, or the token name, by default
+   */
+  as?: string;
+  /**
+   * Resolves to `undefined` when the identifier is not bound
+   */
+  optional?: boolean;
+  /**
+   * @deprecated use `optional`
+   */
+  dontThrowIfNull?: boolean;
+  /**
+   * Used when the identifier is not bound, functions are called with
+   * the container, so a function value has to be returned by one
+   */
+  default?: unknown;
+  /**
+   * Injects a getter resolving the dependency on each call, 
+   * so it can be resolved after the dependent is created
+   */
+  lazy?: boolean;
+  /**
+   * Maps the resolved value, the default included, before it is
+   * injected, lazy dependencies map it on each call
+   */
+  transform?: (value: any) => unknown;
+}
+
+type DefaultValue<D> = D extends (...args: any[]) => infer Value ? Value : D
+
+type TransformedValue<Spec, Value> = Spec extends { transform: (value: never) => infer Result } 
+  ? Result 
+  : Value
+
+/**
+ * Value injected for a dependency spec
+ */
+export type ResolvedDependency<
+  Register extends PlainObject, 
+  Spec extends DependencySpec
+> = (
+  Spec extends { default: infer D } 
+    ? ServiceType<Register, Spec['identifier']> | DefaultValue<D>
+    : Spec extends { optional: true } | { dontThrowIfNull: true }
+      ? ServiceType<Register, Spec['identifier']> | undefined
+      : ServiceType<Register, Spec['identifier']>
+) extends infer Value 
+  ? TransformedValue<Spec, Value> extends infer Injected
+    ? Spec extends { lazy: true } ? () => Injected : Injected
+    : never
+  : never
+
+/**
+ * Key of a dependency in the object built by `createAutoResolver`,
+ * tokens use their name
+ */
+export type ResolvedKey<Key> = Key extends Token<any, infer Name> ? Name : Key
+
+type DependencyKey<Spec extends DependencySpec> = Spec extends { as: infer Alias extends string } 
+  ? Alias 
+  : ResolvedKey<Spec['identifier']>
+
+// one spec per identifier, for specs typed with a union of identifiers
+type SpecPerIdentifier<Spec extends DependencySpec> = Spec extends unknown
+  ? Spec['identifier'] extends infer Key 
+    ? Key extends unknown ? Spec & { identifier: Key } : never 
+    : never
+  : never
+
+declare const resolverSpecs: unique symbol
+
+/**
+ * Resolver built from dependency specs, the specs are kept in its type
+ * so `bind` types them against the register of the container
+ */
+export type AutoResolver<
+  Specs extends readonly DependencySpec[], 
+  Shape extends 'object' | 'array'
+> = ((ctx: IPreProcessDependencyContainer<any>) => any) & {
+  readonly [resolverSpecs]: { specs: Specs, shape: Shape }
+}
+
+/**
+ * What can be given as `resolveDependencies`, the identifiers 
+ * of auto resolvers must be known by the register
+ */
+export type DependencyResolver<Register extends PlainObject, Meta = any> = 
+  ((ctx: IPreProcessDependencyContainer<Register>, meta?: Meta) => unknown) & {
+    readonly [resolverSpecs]?: { specs: readonly DependencySpec<ServiceIdentifier<Register>>[] }
+  }
+
+/**
+ * Dependencies a resolver gives to the provider
+ */
+export type ResolvedBy<Register extends PlainObject, Resolver> = Resolver extends {
+  readonly [resolverSpecs]: { specs: infer Specs extends readonly DependencySpec[], shape: infer Shape }
+}
+  ? Shape extends 'object'
+    ? { [Spec in SpecPerIdentifier<Specs[number]> as DependencyKey<Spec>]: ResolvedDependency<Register, Spec> }
+    : { -readonly [I in keyof Specs]: ResolvedDependency<Register, Specs[I]> }
+  : Resolver extends (...args: any[]) => infer M 
+    ? M 
+    : unknown
+
+/**
+ * Bind options whose provider receives what `resolveDependencies` returns
+ */
+export type BindOptionsFor<
+  Register extends PlainObject, 
+  T extends ServiceIdentifier<Register>, 
+  Resolver, 
+  Meta = any
+> = BindOptions<Register, T, ResolvedBy<Register, Resolver>, Meta> & { resolveDependencies?: Resolver }
+
+export type AsyncBindOptionsFor<
+  Register extends PlainObject, 
+  T extends ServiceIdentifier<Register>, 
+  Resolver, 
+  Meta = any
+> = AsyncBindOptions<Register, T, Awaited<ResolvedBy<Register, Resolver>>, Meta> & { resolveDependencies?: Resolver }
+
+/**
+ * Services registered for the identifiers, in the same order
+ */
+export type InjectedArgs<
+  Register extends PlainObject, 
+  Inject extends readonly ServiceIdentifier<Register>[]
+> = { -readonly [I in keyof Inject]: ServiceType<Register, Inject[I]> }
+
+/**
+ * Class whose constructor receives the services of `inject`,
+ * listed by its static `inject` or by the bind options
+ */
+export type InjectableClass<
+  Register extends PlainObject, 
+  T, 
+  Inject extends readonly ServiceIdentifier<Register>[]
+> = (new (...args: NoInfer<InjectedArgs<Register, Inject>>) => T) & { inject?: Inject }
+
+export interface BindClassOptions<
+  Register extends PlainObject, 
+  T extends ServiceIdentifier<Register>, 
+  Inject extends readonly ServiceIdentifier<Register>[]
+>{
+  /**
+   * Identifiers passed to the constructor in order,
+   * the static `inject` of the class is used otherwise
+   */
+  inject?: Inject;
+  scope?: Scope;
+  /**
+   * Selects the binding in `warmUp`
+   */
+  tags?: string[];
+  dispose?: Disposer<ServiceType<Register, T>>;
+}
+
 /**
  * Each time client code binds it needs a depedency resolution
  * callback to be registered, so this callback is goign to be
@@ -57,8 +560,50 @@ export interface IPreProcessDependencyContainer<
   Register extends PlainObject
 > extends IPrimitiveContainer<Register>{
   bind<
-    T extends keyof Register, 
-    M = unknown,
+    T extends ServiceIdentifier<Register>, 
+    Resolver extends DependencyResolver<Register, Meta> = DependencyResolver<Register>,
+    Meta = any
+  >(identifier: T, options: BindOptionsFor<Register, T, Resolver, Meta>):this;
+  /**
+   * Same as `bind` but adds a contribution to a multi binding,
+   * resolved with `getAll`
+   */
+  bindMany<
+    T extends ServiceIdentifier<Register>, 
+    Resolver extends DependencyResolver<Register, Meta> = DependencyResolver<Register>,
+    Meta = any
+  >(identifier: T, options: BindOptionsFor<Register, T, Resolver, Meta>):this;
+  /**
+   * Binds an identifier registered as a promise, both the dependency 
+   * resolution and the provider can be async. Singleton initialisations
+   * are shared while in flight and failed ones are not cached, 
+   * so the next request tries again
+   */
+  bindAsync<
+    T extends AsyncIdentifiers<Register>, 
+    Resolver extends DependencyResolver<Register, Meta> = DependencyResolver<Register>,
     Meta = any
-  >(identifier: T, options: BindOptions<Register, T, M, Meta>):this;
+  >(identifier: T, options: AsyncBindOptionsFor<Register, T, Resolver, Meta>):this;
+  /**
+   * Binds a class, its constructor receives the services of the 
+   * `inject` identifiers, given in the options or as a static property
+   * 
+   * @example
+   * 
+   * class UsersApi {
+   *   static inject = ['logger', 'http'] as const
+   * 
+   *   constructor(private logger: Logger, private http: Http){}
+   * }
+   * 
+   * container.bindClass('usersApi', UsersApi)
+   */
+  bindClass<
+    T extends ServiceIdentifier<Register>,
+    const Inject extends readonly ServiceIdentifier<Register>[] = []
+  >(
+    identifier: T, 
+    Class: InjectableClass<Register, ServiceType<Register, T>, Inject>, 
+    options?: BindClassOptions<Register, T, Inject>
+  ):this;
 }
@@ -34,8 +34,8 @@ describe('ObservableStore subscribe emitCurrent option', () => {
     expect(value).toBe('next'); // Should not update after cleanup
   });
 });
-import { ObservableStore, DerivedStore } from './index';
-import { describe, it, expect } from 'vitest'
+import { ObservableStore, DerivedStore, AsyncDerivedStore, batch, transaction, computed } from './index';
+import { describe, it, expect, vi } from 'vitest'
 
 describe('DerivedStore', () => {
   it('should derive state from multiple named sources and update when any source changes', () => {
@@ -91,3 +91,470 @@ describe('DerivedStore', () => {
     cleanup();
   });
 });
+
+describe('ObservableStore equality checks', () => {
+  it('does not notify when the value did not change', () => {
+    const store = new ObservableStore({ count: 0 });
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    store.update(prev => prev);
+    expect(listener).not.toHaveBeenCalled();
+
+    store.update(prev => ({ ...prev }));
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('uses the comparator of the store', () => {
+    const store = new ObservableStore({ count: 0 }, { equals: (prev, next) => prev.count === next.count });
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    store.update({ count: 0 });
+    store.update({ count: 1 });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps notifying values mutated in place when asked to', () => {
+    const store = new ObservableStore({ count: 0 }, { equals: () => false });
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    store.update(prev => {
+      prev.count++;
+      return prev;
+    });
+    expect(listener).toHaveBeenCalledWith({ count: 1 });
+  });
+});
+
+describe('ObservableStore selector subscriptions', () => {
+  const createForm = () => new ObservableStore({ name: 'John', email: 'john@test.com', tags: ['a'] });
+
+  it('only notifies when the selected slice changes', () => {
+    const form = createForm();
+    const names: string[] = [];
+    form.subscribe((name: string) => { names.push(name); }, { selector: value => value.name });
+
+    form.update(prev => ({ ...prev, email: 'jane@test.com' }));
+    form.update(prev => ({ ...prev, name: 'Jane' }));
+    expect(names).toEqual(['Jane']);
+  });
+
+  it('compares slices with the given comparator', () => {
+    const form = createForm();
+    const listener = vi.fn();
+    form.subscribe(listener, {
+      selector: value => value.tags,
+      equals: (prev, next) => prev.join() === next.join()
+    });
+
+    form.update(prev => ({ ...prev, tags: ['a'] }));
+    form.update(prev => ({ ...prev, tags: ['a', 'b'] }));
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(['a', 'b']);
+  });
+
+  it('emits the current slice and cleans up', () => {
+    const form = createForm();
+    const listener = vi.fn();
+    const cleanup = form.subscribeWithCleanup(listener, { selector: value => value.email, emitCurrent: true });
+
+    expect(listener).toHaveBeenCalledWith('john@test.com');
+    cleanup();
+    form.update(prev => ({ ...prev, email: 'jane@test.com' }));
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('batch', () => {
+  const createTotals = () => {
+    const price = new ObservableStore(10);
+    const quantity = new ObservableStore(1);
+    const discount = new ObservableStore(0);
+    const derive = vi.fn(({ price, quantity, discount }: { price: number, quantity: number, discount: number }) =>
+      price * quantity - discount
+    );
+    const total = new DerivedStore({ price, quantity, discount }, derive);
+    return { price, quantity, discount, derive, total };
+  };
+
+  it('recomputes derived stores once and notifies with the final values', () => {
+    const { price, quantity, discount, derive, total } = createTotals();
+    const totals: number[] = [];
+    total.subscribe(value => { totals.push(value); });
+    derive.mockClear();
+
+    batch(() => {
+      price.update(20);
+      quantity.update(3);
+      discount.update(5);
+      expect(totals).toEqual([]);
+    });
+
+    expect(derive).toHaveBeenCalledTimes(1);
+    expect(totals).toEqual([55]);
+  });
+
+  it('waits for the outermost batch', () => {
+    const { price, quantity, total } = createTotals();
+    const listener = vi.fn();
+    total.subscribe(listener);
+
+    batch(() => {
+      batch(() => { price.update(20); });
+      expect(listener).not.toHaveBeenCalled();
+      quantity.update(2);
+    });
+
+    expect(listener).toHaveBeenCalledExactlyOnceWith(40);
+  });
+
+  it('recomputes derived stores in topological order without glitches', () => {
+    const count = new ObservableStore(1);
+    const double = new DerivedStore({ count }, ({ count }) => count * 2);
+    const square = new DerivedStore({ count }, ({ count }) => count * count);
+    const deriveSum = vi.fn(({ double, square }: { double: number, square: number }) => double + square);
+    const sum = new DerivedStore({ double, square }, deriveSum);
+    const seen: number[] = [];
+    count.subscribe(() => { seen.push(sum.getValue()); });
+    sum.subscribe(value => { seen.push(value); });
+    deriveSum.mockClear();
+
+    batch(() => { count.update(3); });
+
+    expect(deriveSum).toHaveBeenCalledTimes(1);
+    expect(seen).toEqual([15, 15]);
+  });
+
+  it('does not notify stores ending with their previous value', () => {
+    const store = new ObservableStore('a');
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    batch(() => {
+      store.update('b');
+      store.update('a');
+    });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('notifies the updates made before the callback throws', () => {
+    const store = new ObservableStore(0);
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    expect(() => batch(() => {
+      store.update(1);
+      throw new Error('failed');
+    })).toThrow('failed');
+
+    expect(store.getValue()).toBe(1);
+    expect(listener).toHaveBeenCalledWith(1);
+  });
+
+  it('batches the updates made by listeners', () => {
+    const { price, quantity, derive, total } = createTotals();
+    price.subscribe(value => { quantity.update(value / 10); });
+    derive.mockClear();
+
+    batch(() => { price.update(30); });
+
+    expect(total.getValue()).toBe(90);
+    expect(derive).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('transaction', () => {
+  it('rolls back and notifies nobody when the callback throws', () => {
+    const first = new ObservableStore(1);
+    const second = new ObservableStore(2);
+    const sum = new DerivedStore({ first, second }, ({ first, second }) => first + second);
+    const listener = vi.fn();
+    first.subscribe(listener);
+    sum.subscribe(listener);
+
+    expect(() => transaction(() => {
+      first.update(10);
+      second.update(20);
+      throw new Error('invalid');
+    })).toThrow('invalid');
+
+    expect([first.getValue(), second.getValue(), sum.getValue()]).toEqual([1, 2, 3]);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('only rolls back the nested transaction that failed', () => {
+    const first = new ObservableStore(1);
+    const second = new ObservableStore(2);
+    const listener = vi.fn();
+    second.subscribe(listener);
+
+    transaction(() => {
+      first.update(10);
+      try {
+        transaction(() => {
+          first.update(100);
+          second.update(200);
+          throw new Error('invalid');
+        });
+      } catch {
+        // the outer transaction carries on
+      }
+    });
+
+    expect([first.getValue(), second.getValue()]).toEqual([10, 2]);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('rolls back what nested transactions committed', () => {
+    const store = new ObservableStore('initial');
+
+    expect(() => transaction(() => {
+      transaction(() => { store.update('nested'); });
+      throw new Error('invalid');
+    })).toThrow();
+
+    expect(store.getValue()).toBe('initial');
+  });
+});
+
+describe('computed', () => {
+  it('tracks the stores read and computes lazily', () => {
+    const a = new ObservableStore(1);
+    const b = new ObservableStore(2);
+    const compute = vi.fn(() => a.getValue() + b.getValue());
+    const sum = computed(compute);
+
+    expect(compute).not.toHaveBeenCalled();
+    expect(sum.getValue()).toBe(3);
+    expect(sum.getValue()).toBe(3);
+    expect(compute).toHaveBeenCalledTimes(1);
+
+    a.update(10);
+    b.update(20);
+    expect(compute).toHaveBeenCalledTimes(1);
+    expect(sum.getValue()).toBe(30);
+    expect(compute).toHaveBeenCalledTimes(2);
+  });
+
+  it('only listens to its sources while it has listeners', () => {
+    const count = new ObservableStore(1);
+    const compute = vi.fn(() => count.getValue() * 2);
+    const doubled = computed(compute);
+    const listener = vi.fn();
+
+    const cleanup = doubled.subscribeWithCleanup(listener);
+    count.update(2);
+    expect(listener).toHaveBeenCalledWith(4);
+    expect(compute).toHaveBeenCalledTimes(2);
+
+    cleanup();
+    count.update(3);
+    count.update(4);
+    expect(compute).toHaveBeenCalledTimes(2);
+    expect(doubled.getValue()).toBe(8);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('evaluates diamond dependencies once per change', () => {
+    const a = new ObservableStore(1);
+    const b = computed(() => a.getValue() * 2);
+    const c = computed(() => a.getValue() + 1);
+    const compute = vi.fn(() => b.getValue() + c.getValue());
+    const d = computed(compute);
+    const listener = vi.fn();
+    d.subscribe(listener);
+
+    a.update(2);
+    expect(compute).toHaveBeenCalledTimes(2);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(7);
+
+    batch(() => {
+      a.update(3);
+      a.update(4);
+    });
+    expect(compute).toHaveBeenCalledTimes(3);
+    expect(listener).toHaveBeenLastCalledWith(13);
+  });
+
+  it('follows the stores read by the last evaluation', () => {
+    const useFirst = new ObservableStore(true);
+    const first = new ObservableStore('first');
+    const second = new ObservableStore('second');
+    const compute = vi.fn(() => (useFirst.getValue() ? first.getValue() : second.getValue()));
+    const name = computed(compute);
+    const listener = vi.fn();
+    name.subscribe(listener);
+
+    second.update('other');
+    expect(compute).toHaveBeenCalledTimes(1);
+
+    useFirst.update(false);
+    first.update('ignored');
+    expect(compute).toHaveBeenCalledTimes(2);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith('other');
+  });
+
+  it('skips dependents when its value did not change', () => {
+    const count = new ObservableStore(1);
+    const isEven = computed(() => count.getValue() % 2 === 0);
+    const compute = vi.fn(() => (isEven.getValue() ? 'even' : 'odd'));
+    const label = computed(compute);
+
+    expect(label.getValue()).toBe('odd');
+    count.update(3);
+    expect(label.getValue()).toBe('odd');
+    expect(compute).toHaveBeenCalledTimes(1);
+  });
+
+  it('depends on derived stores and other computed stores', () => {
+    const count = new ObservableStore(1);
+    const doubled = new DerivedStore({ count }, ({ count }) => count * 2);
+    const total = computed(() => doubled.getValue() + count.getValue());
+    const listener = vi.fn();
+    total.subscribe(listener);
+
+    count.update(2);
+    expect(total.getValue()).toBe(6);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('notifies listeners about updates they make themselves', () => {
+    const count = new ObservableStore(1);
+    const doubled = computed(() => count.getValue() * 2);
+    const listener = vi.fn((value: number) => {
+      if (value < 8) count.update(value);
+    });
+    doubled.subscribe(listener);
+
+    count.update(2);
+    expect(listener.mock.calls).toEqual([[4], [8]]);
+    expect(doubled.getValue()).toBe(8);
+  });
+
+  it('computes again after throwing', () => {
+    const count = new ObservableStore(1);
+    let fail = true;
+    const doubled = computed(() => {
+      const value = count.getValue() * 2;
+      if (fail) throw new Error('failed');
+      return value;
+    });
+
+    expect(() => doubled.getValue()).toThrow('failed');
+    fail = false;
+    expect(doubled.getValue()).toBe(2);
+  });
+
+  it('throws when reading itself while computing', () => {
+    const looped = computed((): number => looped.getValue() + 1);
+
+    expect(() => looped.getValue()).toThrow('Computed store read while computing its own value');
+  });
+});
+
+describe('AsyncDerivedStore', () => {
+  const deferred = <T>() => {
+    let resolve!: (value: T) => void;
+    let reject!: (error: unknown) => void;
+    const promise = new Promise<T>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    return { promise, resolve, reject };
+  };
+
+  it('loads the data derived from the sources', async () => {
+    const query = new ObservableStore('cats');
+    const page = new ObservableStore(1);
+    const results = new AsyncDerivedStore({ query, page }, async ({ query, page }) => `${query} #${page}`);
+
+    expect(results.getValue()).toEqual({ status: 'loading', data: undefined, error: undefined });
+    await vi.waitFor(() => expect(results.getValue().status).toBe('success'));
+    expect(results.getValue().data).toBe('cats #1');
+    expect(results.getSourceValues()).toEqual({ query: 'cats', page: 1 });
+  });
+
+  it('keeps the last data while loading again and when failing', async () => {
+    const query = new ObservableStore('cats');
+    const [first, second] = [deferred<string>(), deferred<string>()];
+    let runs = 0;
+    const results = new AsyncDerivedStore({ query }, () => [first, second][runs++].promise);
+
+    first.resolve('cats');
+    await vi.waitFor(() => expect(results.getValue().data).toBe('cats'));
+
+    query.update('dogs');
+    expect(results.getValue()).toEqual({ status: 'loading', data: 'cats', error: undefined });
+
+    const error = new Error('offline');
+    second.reject(error);
+    await vi.waitFor(() => expect(results.getValue().status).toBe('error'));
+    expect(results.getValue()).toEqual({ status: 'error', data: 'cats', error });
+  });
+
+  it('aborts stale runs when the sources change', async () => {
+    const query = new ObservableStore('c');
+    const runs = new Map<string, { signal: AbortSignal; resolve: (value: string) => void }>();
+    const results = new AsyncDerivedStore({ query }, ({ query }, signal) => {
+      const run = deferred<string>();
+      runs.set(query, { signal, resolve: run.resolve });
+      return run.promise;
+    });
+
+    query.update('ca');
+    expect(runs.get('c')?.signal.aborted).toBe(true);
+    expect(runs.get('ca')?.signal.aborted).toBe(false);
+
+    runs.get('ca')?.resolve('ca');
+    runs.get('c')?.resolve('c');
+    await vi.waitFor(() => expect(results.getValue().status).toBe('success'));
+    await Promise.resolve();
+    expect(results.getValue().data).toBe('ca');
+  });
+
+  it('debounces runs until the sources settle', async () => {
+    vi.useFakeTimers();
+    try {
+      const query = new ObservableStore('c');
+      const fetchFn = vi.fn(async ({ query }: { query: string }) => query.toUpperCase());
+      const results = new AsyncDerivedStore({ query }, fetchFn, { debounce: 300 });
+
+      expect(results.getValue().status).toBe('idle');
+      query.update('ca');
+      await vi.advanceTimersByTimeAsync(200);
+      query.update('cat');
+      await vi.advanceTimersByTimeAsync(300);
+
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+      expect(results.getValue()).toEqual({ status: 'success', data: 'CAT', error: undefined });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('runs once per batch and stops once disposed', () => {
+    const first = new ObservableStore(1);
+    const second = new ObservableStore(2);
+    const fetchFn = vi.fn(
+      async ({ first, second }: { first: number; second: number }, _signal: AbortSignal) => first + second
+    );
+    const sum = new AsyncDerivedStore({ first, second }, fetchFn);
+
+    batch(() => {
+      first.update(10);
+      second.update(20);
+    });
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+    expect(fetchFn).toHaveBeenLastCalledWith({ first: 10, second: 20 }, expect.any(AbortSignal));
+
+    sum.dispose();
+    first.update(100);
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+    expect(fetchFn.mock.calls[1][1].aborted).toBe(true);
+  });
+});
@@ -1,55 +1,230 @@
+export interface SubscribeOptions<T, S = T> {
+  // Slice of the value passed to the listener, which only runs when the slice changes
+  selector?: (value: T) => S;
+  // Compares the previous and the next slice, Object.is by default
+  equals?: (prev: S, next: S) => boolean;
+  // Calls the listener with the current slice right away
+  emitCurrent?: boolean;
+}
+
+export interface ObservableStoreOptions<T> {
+  // Updates with a value equal to the previous one notify nobody, Object.is by default.
+  // Stores whose value is mutated in place can use () => false
+  equals?: (prev: T, next: T) => boolean;
+}
+
 export interface IObservableStore<T>{
   getValue():T;
-  unsubscribe(listener: (currentValue:T)=>void): this;
-  subscribe(listener: (currentValue:T)=>void): this;
-  subscribeWithCleanup(listener: (currentValue:T)=>void): ()=>void;
+  unsubscribe<S = T>(listener: (currentValue:S)=>void): this;
+  subscribe<S = T>(listener: (currentValue:S)=>void, options?: boolean | SubscribeOptions<T, S>): this;
+  subscribeWithCleanup<S = T>(listener: (currentValue:S)=>void, options?: boolean | SubscribeOptions<T, S>): ()=>void;
   update(updater: T | ((prev: T)=>T)):this;
 }
 
+interface PendingUpdate {
+  // Whether the value differs from the one it had when it was first updated
+  changed(): boolean;
+  notify(propagatorsOnly: boolean): void;
+}
+
+// Listeners recomputing derived stores, when a batch ends they run
+// before any other listener so nobody sees a stale derived value
+const propagators = new WeakSet<(currentValue: any) => void>();
+
+// Changes made to each store, computed stores recompute once the
+// version of any store they read moves
+const versions = new WeakMap<IObservableStore<any>, number>();
+
+// Derived and computed stores are recomputed after the ones they depend on
+const ranks = new WeakMap<IObservableStore<any>, number>();
+
+// Stores read by the computed store being evaluated
+let tracked: Set<ObservableStore<any>> | undefined;
+
+const bumpVersion = (store: IObservableStore<any>) => {
+  versions.set(store, (versions.get(store) ?? 0) + 1);
+};
+
+const rankOf = (store: IObservableStore<any>) => ranks.get(store) ?? -1;
+
+// Shared by every store, batches can span several of them
+const batchState = {
+  depth: 0,
+  updates: new Map<IObservableStore<any>, PendingUpdate>(),
+  // Derived stores to recompute, lower ranks first
+  dirty: new Map<IObservableStore<any>, { rank: number; recompute: () => void }>(),
+  // Restores the values stores had when each running transaction started, innermost last
+  journals: [] as Map<IObservableStore<any>, () => void>[],
+};
+
+const flushBatch = () => {
+  const notified: PendingUpdate[] = [];
+  // Listeners updating stores while notified are batched too
+  batchState.depth++;
+  try {
+    while (batchState.updates.size || batchState.dirty.size) {
+      const updates = Array.from(batchState.updates.values()).filter((update) => update.changed());
+      batchState.updates.clear();
+      updates.forEach((update) => {
+        update.notify(true);
+        notified.push(update);
+      });
+
+      const [next] = Array.from(batchState.dirty).sort(([, a], [, b]) => a.rank - b.rank);
+      if (next) {
+        batchState.dirty.delete(next[0]);
+        next[1].recompute();
+      }
+
+      if (!batchState.updates.size && !batchState.dirty.size) {
+        notified.splice(0).forEach((update) => {
+          update.notify(false);
+        });
+      }
+    }
+  } finally {
+    batchState.depth--;
+    batchState.updates.clear();
+    batchState.dirty.clear();
+  }
+};
+
+const runBatch = <R>(fn: () => R, journal?: Map<IObservableStore<any>, () => void>): R => {
+  batchState.depth++;
+  if (journal) {
+    batchState.journals.push(journal);
+  }
+  try {
+    const result = fn();
+    const parent = journal && batchState.journals.at(-2);
+    journal?.forEach((restore, store) => {
+      if (parent && !parent.has(store)) {
+        parent.set(store, restore);
+      }
+    });
+    return result;
+  } catch (error) {
+    journal?.forEach((restore) => {
+      restore();
+    });
+    throw error;
+  } finally {
+    if (journal) {
+      batchState.journals.pop();
+    }
+    batchState.depth--;
+    if (batchState.depth === 0) {
+      flushBatch();
+    }
+  }
+};
+
+/**
+ * Runs fn notifying listeners once it ends, or once the outermost batch ends
+ * when nested. Derived stores are recomputed once, after their sources, and
+ * stores whose value ends up as it was notify nobody. Derived values read
+ * inside the batch are the ones from before it
+ */
+export const batch = <R>(fn: () => R): R => runBatch(fn);
+
+/**
+ * Same as batch, but if fn throws the stores it updated get back the
+ * values they had before and nobody is notified about them
+ */
+export const transaction = <R>(fn: () => R): R => runBatch(fn, new Map());
+
 export class ObservableStore<T> implements IObservableStore<T>{
-  protected listeners = new Set<(currentValue: T) => void>();
+  // Each listener with the function notifying it, which applies its selector
+  protected listeners = new Map<(currentValue: any) => void, (currentValue: T) => void>();
   protected value: T;
+  protected equals: (prev: T, next: T) => boolean;
 
-  constructor(initialValue: T) {
+  constructor(initialValue: T, options: ObservableStoreOptions<T> = {}) {
     this.value = initialValue;
+    this.equals = options.equals ?? Object.is;
   }
 
   getValue(): T {
+    tracked?.add(this);
     return this.value;
   }
 
-  unsubscribe(listener: (currentValue: T) => void) {
+  unsubscribe<S = T>(listener: (currentValue: S) => void) {
     this.listeners.delete(listener);
     return this;
   }
 
-  subscribe(listener: (currentValue: T) => void, emitCurrent = false): this {
-    this.listeners.add(listener);
+  subscribe<S = T>(
+    listener: (currentValue: S) => void,
+    options: boolean | SubscribeOptions<T, S> = false
+  ): this {
+    const { selector, equals, emitCurrent = false } =
+      typeof options === 'boolean' ? { emitCurrent: options } : options;
+    const select = selector ?? ((value: T) => value as unknown as S);
+    let selected = select(this.value);
+
+    this.listeners.set(listener, (value) => {
+      const next = select(value);
+      // Without selector nor comparator every update reaches the listener
+      if ((selector || equals) && (equals ?? Object.is)(selected, next)) return;
+      selected = next;
+      listener(next);
+    });
     if (emitCurrent) {
-      listener(this.value);
+      listener(selected);
     }
     return this;
   }
 
-  subscribeWithCleanup(listener: (currentValue: T) => void, emitCurrent = false): () => void {
-    this.listeners.add(listener);
-    if (emitCurrent) {
-      listener(this.value);
-    }
+  subscribeWithCleanup<S = T>(
+    listener: (currentValue: S) => void,
+    options: boolean | SubscribeOptions<T, S> = false
+  ): () => void {
+    this.subscribe(listener, options);
     return () => {
       this.unsubscribe(listener);
     };
   }
 
   update(updater: T | ((prev: T) => T)) {
-    if (typeof updater === 'function') {
-      this.value = (updater as (prev: T) => T)(this.value);
-    } else {
-      this.value = updater;
+    const next = typeof updater === 'function'
+      ? (updater as (prev: T) => T)(this.value)
+      : updater;
+    if (this.equals(this.value, next)) {
+      return this;
+    }
+    const prev = this.value;
+    this.value = next;
+    bumpVersion(this);
+    if (!batchState.depth) {
+      this.notify();
+      return this;
+    }
+
+    const journal = batchState.journals.at(-1);
+    if (journal && !journal.has(this)) {
+      journal.set(this, () => {
+        this.value = prev;
+        bumpVersion(this);
+      });
+    }
+    if (!batchState.updates.has(this)) {
+      batchState.updates.set(this, {
+        changed: () => !this.equals(prev, this.value),
+        notify: (propagatorsOnly) => this.notify(propagatorsOnly),
+      });
     }
-    this.listeners.forEach(cb => cb(this.value));
     return this;
   }
+
+  // Calls every listener, or only the ones that are propagators or not
+  protected notify(propagatorsOnly?: boolean) {
+    this.listeners.forEach((notify, listener) => {
+      if (propagatorsOnly === undefined || propagatorsOnly === propagators.has(listener)) {
+        notify(this.value);
+      }
+    });
+  }
 }
 
 // Using record type for better type safety with sources
@@ -76,7 +251,8 @@ export class DerivedStore<T, S extends Record<string, any>>
 
   constructor(
     private sources: SourcesRecord<S>,
-    private deriveFn: (sourceValues: SourcesValues<S>, prevValue?: T) => T
+    private deriveFn: (sourceValues: SourcesValues<S>, prevValue?: T) => T,
+    options?: ObservableStoreOptions<T>
   ) {
     // Initialize with derived value from current sources
     const sourceValues = Object.entries(sources).reduce(
@@ -86,20 +262,31 @@ export class DerivedStore<T, S extends Record<string, any>>
       },
       {} as Record<string, any>
     ) as SourcesValues<S>;
-    super(deriveFn(sourceValues));
+    super(deriveFn(sourceValues), options);
+    ranks.set(this, Math.max(0, ...Object.values(sources).map((store) => rankOf(store) + 1)));
     // Subscribe to all sources
-    Object.entries(this.sources).forEach(([key, store]) => {
-      const cleanup = store.subscribeWithCleanup(() => {
+    Object.values(this.sources).forEach((store) => {
+      const propagate = () => {
         if (this.isDisposed) return;
-        // Get current values from all sources
-        const currentSourceValues = this.getSourceValues();
-        // Update our value with the derivation function
-        super.update(prevValue => this.deriveFn(currentSourceValues, prevValue));
-      });
-      this.cleanupFunctions.push(cleanup);
+        // Batches recompute once all the sources are updated
+        if (batchState.depth) {
+          batchState.dirty.set(this, { rank: rankOf(this), recompute: () => this.recompute() });
+          return;
+        }
+        this.recompute();
+      };
+      propagators.add(propagate);
+      this.cleanupFunctions.push(store.subscribeWithCleanup(propagate));
     });
   }
 
+  private recompute() {
+    // Get current values from all sources
+    const currentSourceValues = this.getSourceValues();
+    // Update our value with the derivation function
+    super.update(prevValue => this.deriveFn(currentSourceValues, prevValue));
+  }
+
   getSources(): SourcesRecord<S> {
     return this.sources;
   }
@@ -127,12 +314,247 @@ export class DerivedStore<T, S extends Record<string, any>>
 
   dispose() {
     this.isDisposed = true;
+    batchState.dirty.delete(this);
     this.cleanupFunctions.forEach(cleanup => cleanup());
     this.cleanupFunctions = [];
     return this;
   }
 }
 
+export type AsyncStatus = 'idle' | 'loading' | 'success' | 'error';
+
+export interface AsyncState<T> {
+  status: AsyncStatus;
+  // Last successful result, kept while loading again and after errors
+  data: T | undefined;
+  error: unknown;
+}
+
+export interface AsyncDerivedStoreOptions {
+  // Milliseconds to wait for the sources to settle before each run
+  debounce?: number;
+}
+
+export class AsyncDerivedStore<T, S extends Record<string, any>>
+  extends ObservableStore<AsyncState<T>>
+  implements IDerivedStore<AsyncState<T>, S> {
+  // Source values as a single store, recomputed once per batch
+  private inputs: DerivedStore<SourcesValues<S>, S>;
+  private cleanup: () => void;
+  private controller?: AbortController;
+  private timer?: ReturnType<typeof setTimeout>;
+  private debounce: number;
+
+  constructor(
+    sources: SourcesRecord<S>,
+    private fetchFn: (sourceValues: SourcesValues<S>, signal: AbortSignal) => Promise<T>,
+    options: AsyncDerivedStoreOptions = {}
+  ) {
+    super({ status: 'idle', data: undefined, error: undefined });
+    this.debounce = options.debounce ?? 0;
+    this.inputs = new DerivedStore(sources, (sourceValues) => sourceValues);
+    this.cleanup = this.inputs.subscribeWithCleanup((sourceValues) => this.schedule(sourceValues));
+    this.schedule(this.inputs.getValue());
+  }
+
+  getSources(): SourcesRecord<S> {
+    return this.inputs.getSources();
+  }
+
+  getSourceValues(): SourcesValues<S> {
+    return this.inputs.getSourceValues();
+  }
+
+  // Stops listening to the sources and cancels the pending run
+  dispose() {
+    this.cancel();
+    this.cleanup();
+    this.inputs.dispose();
+    return this;
+  }
+
+  private cancel() {
+    clearTimeout(this.timer);
+    this.controller?.abort();
+    this.controller = undefined;
+  }
+
+  // The running fetch is stale as soon as the sources change
+  private schedule(sourceValues: SourcesValues<S>) {
+    this.cancel();
+    if (this.debounce > 0) {
+      this.timer = setTimeout(() => this.run(sourceValues), this.debounce);
+      return;
+    }
+    this.run(sourceValues);
+  }
+
+  private run(sourceValues: SourcesValues<S>) {
+    const controller = new AbortController();
+    this.controller = controller;
+    this.update((prev) => ({ status: 'loading', data: prev.data, error: undefined }));
+
+    new Promise<T>((resolve) => resolve(this.fetchFn(sourceValues, controller.signal))).then(
+      (data) => {
+        if (controller.signal.aborted) return;
+        this.controller = undefined;
+        this.update({ status: 'success', data, error: undefined });
+      },
+      (error) => {
+        if (controller.signal.aborted) return;
+        this.controller = undefined;
+        this.update((prev) => ({ status: 'error', data: prev.data, error }));
+      }
+    );
+  }
+}
+
+export class ComputedStore<T> extends ObservableStore<T> {
+  // Stores read by the last evaluation, with the version they had then
+  private sources = new Map<ObservableStore<any>, number>();
+  // Subscriptions to the sources, only kept while this store has listeners
+  private subscriptions = new Map<ObservableStore<any>, () => void>();
+  private evaluated = false;
+  private evaluating = false;
+  private refreshing = false;
+
+  constructor(
+    private computeFn: (prevValue?: T) => T,
+    options?: ObservableStoreOptions<T>
+  ) {
+    // Nothing is computed until the value is read or listened to
+    super(undefined as T, options);
+    propagators.add(this.propagate);
+  }
+
+  private propagate = () => {
+    // Sources this store is reading need no propagation
+    if (this.refreshing) return;
+    // Batches recompute once all the sources are updated
+    if (batchState.depth) {
+      batchState.dirty.set(this, { rank: rankOf(this), recompute: () => this.refresh() });
+      return;
+    }
+    this.refresh();
+  };
+
+  getValue(): T {
+    this.refresh();
+    return super.getValue();
+  }
+
+  subscribe<S = T>(
+    listener: (currentValue: S) => void,
+    options: boolean | SubscribeOptions<T, S> = false
+  ): this {
+    this.refresh();
+    super.subscribe(listener, options);
+    this.syncSubscriptions();
+    return this;
+  }
+
+  unsubscribe<S = T>(listener: (currentValue: S) => void) {
+    super.unsubscribe(listener);
+    this.syncSubscriptions();
+    return this;
+  }
+
+  // Drops every listener along with the subscriptions to the sources
+  dispose() {
+    this.listeners.clear();
+    this.syncSubscriptions();
+    batchState.dirty.delete(this);
+    return this;
+  }
+
+  // Evaluates again when never evaluated or when any source changed since,
+  // sources being computed stores refresh first so each one evaluates once
+  private refresh() {
+    if (this.evaluating) {
+      throw new Error('Computed store read while computing its own value');
+    }
+    if (this.refreshing) return;
+
+    let evaluation: { value: T } | undefined;
+    this.refreshing = true;
+    try {
+      if (!this.evaluated || this.isStale()) {
+        evaluation = { value: this.evaluate() };
+      }
+    } finally {
+      this.refreshing = false;
+    }
+    if (!evaluation) return;
+
+    // Listeners run once refreshed, their updates propagate again
+    if (this.evaluated) {
+      super.update(evaluation.value);
+    } else {
+      this.evaluated = true;
+      this.value = evaluation.value;
+      bumpVersion(this);
+    }
+    this.syncSubscriptions();
+  }
+
+  // Runs computeFn recording the stores it reads
+  private evaluate() {
+    const reads = new Set<ObservableStore<any>>();
+    const outerTracked = tracked;
+    tracked = reads;
+    this.evaluating = true;
+    let value: T;
+    try {
+      value = this.computeFn(this.evaluated ? this.value : undefined);
+    } finally {
+      tracked = outerTracked;
+      this.evaluating = false;
+    }
+    // Kept as they were when computeFn throws, so the next read tries again
+    this.sources = new Map(Array.from(reads, (store) => [store, versions.get(store) ?? 0]));
+    ranks.set(this, Math.max(0, ...Array.from(reads, (store) => rankOf(store) + 1)));
+    return value;
+  }
+
+  private isStale() {
+    // Checking the sources must not track them for an outer computed store
+    const outerTracked = tracked;
+    tracked = undefined;
+    try {
+      return Array.from(this.sources).some(([store, version]) => {
+        store.getValue();
+        return (versions.get(store) ?? 0) !== version;
+      });
+    } finally {
+      tracked = outerTracked;
+    }
+  }
+
+  // Listens to the sources while somebody listens to this store
+  private syncSubscriptions() {
+    const sources = this.listeners.size ? this.sources : new Map<ObservableStore<any>, number>();
+    this.subscriptions.forEach((cleanup, store) => {
+      if (!sources.has(store)) {
+        cleanup();
+        this.subscriptions.delete(store);
+      }
+    });
+    sources.forEach((_, store) => {
+      if (!this.subscriptions.has(store)) {
+        this.subscriptions.set(store, store.subscribeWithCleanup(this.propagate));
+      }
+    });
+  }
+}
+
+/**
+ * Creates a store computed by fn, depending on whichever stores fn reads
+ * with getValue, tracked again on every run. The value is computed lazily
+ * when read after any of them changed, and the sources are only subscribed
+ * to while the store has listeners
+ */
+export const computed = <T>(fn: (prevValue?: T) => T, options?: ObservableStoreOptions<T>) =>
+  new ComputedStore(fn, options);
 
 export interface IChildObservableStore<C, P = C> extends IObservableStore<C> {
   setOnParentUpdate(onParentUpdate: (parentValue: P, childPrev: C) => C): this;
@@ -143,9 +565,10 @@ export class ChildObservableStore<C, P = C> extends ObservableStore<C> {
   constructor(
     initialValue: C,
     private parent: IObservableStore<P>,
-    private onParentUpdate: (parentValue: P, childPrev: C) => C
+    private onParentUpdate: (parentValue: P, childPrev: C) => C,
+    options?: ObservableStoreOptions<C>
   ) {
-    super(initialValue);
+    super(initialValue, options);
     this.cleanup = this.parent.subscribeWithCleanup((parentValue) => {
       super.update((childPrev) => this.onParentUpdate(parentValue, childPrev));
     });
@@ -1,5 +1,5 @@
 import { createContext, use, useMemo } from 'react'
-import type { PlainObject, PreProcessDependencyContainerWithUse } from '@computerwwwizards/dependency-injection'
+import type { PlainObject, PreProcessDependencyContainerWithUse, ServiceIdentifier, ServiceType } from '@computerwwwizards/dependency-injection'
 
 export function createContainerContext<T extends PlainObject>(){
   const DIcontext = createContext<
@@ -10,7 +10,7 @@ export function createContainerContext<T extends PlainObject>(){
     return use(DIcontext)
   }
 
-  function useGetService(identifier: keyof T){
+  function useGetService<K extends ServiceIdentifier<T>>(identifier: K): ServiceType<T, K>{
     return useMemo(()=>useGetContainer().get(identifier), [identifier])
   }
 